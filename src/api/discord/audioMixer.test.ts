@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { mixPcmFrames } from '../../utils/audioUtils.js';
+import { AudioMixer } from './audioMixer.js';
+
+/** 20 ms of 8 kHz mono 16-bit PCM. */
+const SAMPLE_RATE = 8000;
+const FRAME_SAMPLES = 160;
+const FRAME_BYTES = FRAME_SAMPLES * 2;
+
+function constantPcm(value: number, samples = FRAME_SAMPLES): Buffer {
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) pcm.writeInt16LE(value, i * 2);
+  return pcm;
+}
+
+function samplesOf(pcm: Buffer): number[] {
+  return Array.from({ length: pcm.byteLength / 2 }, (_, i) => pcm.readInt16LE(i * 2));
+}
+
+/**
+ * Runs a mixer for a few ticks and collects what it emits.
+ */
+async function runMixer(
+  setup: (mixer: AudioMixer) => void,
+  emitSilence = true,
+  durationMs = 100
+): Promise<Buffer[]> {
+  const frames: Buffer[] = [];
+  const mixer = new AudioMixer(frame => frames.push(frame), SAMPLE_RATE, emitSilence);
+  setup(mixer);
+  mixer.start();
+  await sleep(durationMs);
+  mixer.stop();
+  return frames;
+}
+
+describe('mixPcmFrames', () => {
+  it('sums overlapping frames sample by sample', () => {
+    const mixed = mixPcmFrames([constantPcm(1000), constantPcm(-250)], FRAME_BYTES);
+    assert.deepEqual(samplesOf(mixed), samplesOf(constantPcm(750)));
+  });
+
+  it('clips instead of wrapping around', () => {
+    const loud = mixPcmFrames([constantPcm(30000), constantPcm(30000)], FRAME_BYTES);
+    const quiet = mixPcmFrames([constantPcm(-30000), constantPcm(-30000)], FRAME_BYTES);
+    assert.deepEqual(samplesOf(loud), samplesOf(constantPcm(32767)));
+    assert.deepEqual(samplesOf(quiet), samplesOf(constantPcm(-32768)));
+  });
+
+  it('returns silence when there is nothing to mix', () => {
+    assert.deepEqual(mixPcmFrames([], FRAME_BYTES), Buffer.alloc(FRAME_BYTES));
+  });
+});
+
+describe('AudioMixer', () => {
+  it('mixes speakers into one frame per tick and fills gaps with silence', async () => {
+    const frames = await runMixer(mixer => {
+      mixer.push('alice', constantPcm(1000));
+      mixer.push('bob', constantPcm(2000));
+    });
+
+    assert.ok(frames.length >= 2);
+    assert.deepEqual(samplesOf(frames[0]), samplesOf(constantPcm(3000)));
+    assert.deepEqual(frames[1], Buffer.alloc(FRAME_BYTES));
+  });
+
+  it('joins pushes that straddle frame boundaries', async () => {
+    const frames = await runMixer(mixer => {
+      mixer.push('alice', constantPcm(500, 100));
+      mixer.push('alice', constantPcm(500, 100));
+    }, false);
+
+    assert.equal(frames.length, 1);
+    assert.deepEqual(samplesOf(frames[0]), samplesOf(constantPcm(500)));
+  });
+
+  it('emits nothing between utterances when silence is disabled', async () => {
+    const frames = await runMixer(() => {}, false);
+    assert.equal(frames.length, 0);
+  });
+
+  it('drops the oldest frames when a speaker falls too far behind', async () => {
+    const frames = await runMixer(mixer => {
+      for (let value = 1; value <= 12; value++) mixer.push('alice', constantPcm(value));
+    }, false);
+
+    assert.ok(frames.length > 0);
+    assert.equal(frames[0].readInt16LE(0), 3);
+  });
+
+  it('discards audio from removed speakers', async () => {
+    const frames = await runMixer(mixer => {
+      mixer.push('alice', constantPcm(1000));
+      mixer.removeSpeaker('alice');
+    }, false);
+
+    assert.equal(frames.length, 0);
+  });
+});
@@ -0,0 +1,134 @@
+import { performance } from 'perf_hooks';
+import { logger } from '../../config/logger.js';
+import { mixPcmFrames } from '../../utils/audioUtils.js';
+
+/** Duration of a single mixer frame; matches Discord's Opus packet size. */
+export const FRAME_DURATION_MS = 20;
+
+/** Upper bound on frames buffered per speaker before the oldest are dropped. */
+const MAX_QUEUED_FRAMES = 10;
+
+/** How far the clock may fall behind before it resynchronises instead of catching up. */
+const MAX_CATCH_UP_FRAMES = 5;
+
+interface SpeakerTrack {
+  frames: Buffer[];
+  remainder: Buffer;
+}
+
+/**
+ * Mixes decoded PCM from every speaker on a shared 20 ms clock and emits a single
+ * continuous mono 16-bit stream, filling gaps with silence unless told not to.
+ */
+export class AudioMixer {
+  private readonly tracks: Map<string, SpeakerTrack>;
+  private readonly sink: (frame: Buffer) => void;
+  private readonly frameBytes: number;
+  private readonly emitSilence: boolean;
+  private timer: NodeJS.Timeout | null;
+  private nextTickAt: number;
+
+  /**
+   * @param sink - Receives every mixed frame, including silence when enabled.
+   * @param sampleRate - Sample rate of the mono PCM being mixed (defaults to 16 kHz).
+   * @param emitSilence - Whether ticks with no speaker audio emit a silent frame (defaults to true).
+   */
+  constructor(sink: (frame: Buffer) => void, sampleRate = 16000, emitSilence = true) {
+    this.tracks = new Map();
+    this.sink = sink;
+    this.frameBytes = ((sampleRate * FRAME_DURATION_MS) / 1000) * 2;
+    this.emitSilence = emitSilence;
+    this.timer = null;
+    this.nextTickAt = 0;
+  }
+
+  /**
+   * Starts the mixing clock. Calling it while already running is a no-op.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.nextTickAt = performance.now() + FRAME_DURATION_MS;
+    this.scheduleTick();
+  }
+
+  /**
+   * Stops the mixing clock and discards any buffered audio.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.tracks.clear();
+  }
+
+  /**
+   * Queues decoded PCM for a speaker, splitting it into clock-sized frames.
+   */
+  push(speakerId: string, pcm: Buffer): void {
+    if (pcm.byteLength === 0) return;
+
+    let track = this.tracks.get(speakerId);
+    if (!track) {
+      track = { frames: [], remainder: Buffer.alloc(0) };
+      this.tracks.set(speakerId, track);
+    }
+
+    let data = track.remainder.byteLength ? Buffer.concat([track.remainder, pcm]) : pcm;
+    while (data.byteLength >= this.frameBytes) {
+      track.frames.push(data.subarray(0, this.frameBytes));
+      data = data.subarray(this.frameBytes);
+    }
+    track.remainder = data;
+
+    if (track.frames.length > MAX_QUEUED_FRAMES) {
+      track.frames.splice(0, track.frames.length - MAX_QUEUED_FRAMES);
+    }
+  }
+
+  /**
+   * Drops a speaker's buffered audio, e.g. when their receive stream ends.
+   */
+  removeSpeaker(speakerId: string): void {
+    this.tracks.delete(speakerId);
+  }
+
+  private scheduleTick(): void {
+    const wait = Math.max(0, this.nextTickAt - performance.now());
+    this.timer = setTimeout(this.tick, wait);
+  }
+
+  /**
+   * Emits every frame that has come due since the last tick, then re-arms the timer.
+   */
+  private tick = (): void => {
+    const now = performance.now();
+    if (now - this.nextTickAt > MAX_CATCH_UP_FRAMES * FRAME_DURATION_MS) {
+      logger.debug('Audio mixer clock fell behind; resynchronising.');
+      this.nextTickAt = now;
+    }
+
+    while (this.nextTickAt <= now) {
+      this.emitFrame();
+      this.nextTickAt += FRAME_DURATION_MS;
+    }
+
+    if (this.timer) this.scheduleTick();
+  };
+
+  private emitFrame(): void {
+    const frames: Buffer[] = [];
+    for (const track of this.tracks.values()) {
+      const frame = track.frames.shift();
+      if (frame) frames.push(frame);
+    }
+    if (!frames.length && !this.emitSilence) return;
+
+    try {
+      this.sink(mixPcmFrames(frames, this.frameBytes));
+    } catch (error) {
+      logger.error(error, 'Error delivering mixed audio frame');
+    }
+  }
+}
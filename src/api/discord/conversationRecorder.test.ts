@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { ConversationRecorder } from './conversationRecorder.js';
+
+const WAV_HEADER_BYTES = 44;
+
+let directory: string;
+
+/** 100 ms of 48 kHz mono agent audio at a constant level. */
+function agentAudio(): Buffer {
+  const pcm = Buffer.alloc(4800 * 2);
+  for (let i = 0; i < 4800; i++) pcm.writeInt16LE(8000, i * 2);
+  return pcm;
+}
+
+/** Samples of the right (agent) channel of a recorded WAV file. */
+async function agentChannel(filePath: string): Promise<number[]> {
+  const data = (await readFile(filePath)).subarray(WAV_HEADER_BYTES);
+  return Array.from({ length: data.byteLength / 4 }, (_, i) => data.readInt16LE(i * 4 + 2));
+}
+
+/**
+ * Records for a few mixer ticks, letting `setup` feed the recorder first.
+ */
+async function record(name: string, setup: (recorder: ConversationRecorder) => void) {
+  const filePath = path.join(directory, `${name}.wav`);
+  const recorder = new ConversationRecorder(filePath, 48000);
+  setup(recorder);
+  recorder.start();
+  await sleep(100);
+  await recorder.stop();
+  return agentChannel(filePath);
+}
+
+describe('ConversationRecorder', () => {
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'recorder-test-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('records pending agent audio on the right channel', async () => {
+    const samples = await record('played', recorder => recorder.pushOutput(agentAudio()));
+
+    assert.ok(samples.length > 0);
+    assert.ok(samples.some(sample => sample !== 0));
+  });
+
+  it('drops pending agent audio on an interruption', async () => {
+    const samples = await record('interrupted', recorder => {
+      recorder.pushOutput(agentAudio());
+      recorder.interrupt();
+    });
+
+    assert.ok(samples.length > 0);
+    assert.ok(samples.every(sample => sample === 0));
+  });
+});
@@ -0,0 +1,150 @@
+import { logger } from '../../config/logger.js';
+import { DISCORD_SAMPLE_RATE, PcmResampler } from '../../utils/audioUtils.js';
+import { WavWriter } from '../../utils/wavWriter.js';
+import { AudioMixer } from './audioMixer.js';
+
+/** Sample rate of recordings; plenty for speech and a third of Discord's size. */
+const RECORDING_SAMPLE_RATE = 16000;
+
+/** Agent audio buffered ahead of playback before the oldest is dropped (2 minutes). */
+const MAX_PENDING_OUTPUT_BYTES = RECORDING_SAMPLE_RATE * 2 * 120;
+
+/**
+ * Records a conversation to a stereo WAV file: members on the left channel,
+ * the agent on the right. Member audio is mixed on its own clock, which also
+ * paces the agent track so its audio lands where it was heard rather than when
+ * it arrived. Members who opt out are left out of the mix.
+ */
+export class ConversationRecorder {
+  private readonly writer: WavWriter;
+  private readonly mixer: AudioMixer;
+  private readonly inputResampler: PcmResampler;
+  private readonly outputResampler: PcmResampler;
+  private readonly excluded: Set<string>;
+  private pendingOutput: Buffer[];
+  private pendingOutputBytes: number;
+
+  /**
+   * @param filePath - Where to write the WAV file.
+   * @param inputSampleRate - Sample rate of the decoded member audio.
+   */
+  constructor(filePath: string, inputSampleRate: number) {
+    this.writer = new WavWriter(filePath, RECORDING_SAMPLE_RATE, 2);
+    this.inputResampler = new PcmResampler(inputSampleRate, RECORDING_SAMPLE_RATE);
+    this.outputResampler = new PcmResampler(DISCORD_SAMPLE_RATE, RECORDING_SAMPLE_RATE);
+    this.mixer = new AudioMixer(frame => this.writeFrame(frame), inputSampleRate, true);
+    this.excluded = new Set();
+    this.pendingOutput = [];
+    this.pendingOutputBytes = 0;
+  }
+
+  get filePath(): string {
+    return this.writer.filePath;
+  }
+
+  get excludedUserIds(): string[] {
+    return Array.from(this.excluded);
+  }
+
+  start(): void {
+    this.mixer.start();
+  }
+
+  /**
+   * Stops recording member audio from now on.
+   */
+  exclude(userId: string): void {
+    this.excluded.add(userId);
+    this.mixer.removeSpeaker(userId);
+  }
+
+  isExcluded(userId: string): boolean {
+    return this.excluded.has(userId);
+  }
+
+  /**
+   * Adds a member's decoded audio, unless they opted out.
+   */
+  pushInput(userId: string, pcm: Buffer): void {
+    if (this.excluded.has(userId)) return;
+    this.mixer.push(userId, pcm);
+  }
+
+  /**
+   * Adds agent audio as played, as 48 kHz mono PCM.
+   */
+  pushOutput(pcm: Buffer): void {
+    const resampled = this.outputResampler.process(pcm);
+    if (!resampled.byteLength) return;
+
+    this.pendingOutput.push(resampled);
+    this.pendingOutputBytes += resampled.byteLength;
+    while (this.pendingOutputBytes > MAX_PENDING_OUTPUT_BYTES && this.pendingOutput.length) {
+      this.pendingOutputBytes -= this.pendingOutput.shift()?.byteLength ?? 0;
+    }
+  }
+
+  /**
+   * Drops agent audio that was queued but never played.
+   */
+  interrupt(): void {
+    this.pendingOutput = [];
+    this.pendingOutputBytes = 0;
+  }
+
+  /**
+   * Finishes the file.
+   * @returns Seconds of audio recorded.
+   */
+  async stop(): Promise<number> {
+    this.mixer.stop();
+    return this.writer.close();
+  }
+
+  /**
+   * Interleaves one mixer frame of member audio with the same length of agent audio.
+   */
+  private writeFrame(frame: Buffer): void {
+    const input = this.inputResampler.process(frame);
+    const samples = input.byteLength / 2;
+    if (!samples) return;
+
+    const output = this.takeOutput(samples * 2);
+    const stereo = Buffer.alloc(samples * 4);
+    for (let i = 0; i < samples; i++) {
+      stereo.writeInt16LE(input.readInt16LE(i * 2), i * 4);
+      if (i * 2 < output.byteLength) {
+        stereo.writeInt16LE(output.readInt16LE(i * 2), i * 4 + 2);
+      }
+    }
+
+    try {
+      this.writer.write(stereo);
+    } catch (error) {
+      logger.error(error, 'Error writing conversation recording');
+    }
+  }
+
+  /**
+   * Removes up to `bytes` of pending agent audio from the front of the queue.
+   */
+  private takeOutput(bytes: number): Buffer {
+    const chunks: Buffer[] = [];
+    let taken = 0;
+    while (taken < bytes && this.pendingOutput.length) {
+      const chunk = this.pendingOutput[0];
+      const needed = bytes - taken;
+      if (chunk.byteLength <= needed) {
+        chunks.push(chunk);
+        taken += chunk.byteLength;
+        this.pendingOutput.shift();
+      } else {
+        chunks.push(chunk.subarray(0, needed));
+        this.pendingOutput[0] = chunk.subarray(needed);
+        taken += needed;
+      }
+    }
+    this.pendingOutputBytes -= taken;
+    return chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+  }
+}
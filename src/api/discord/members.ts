@@ -0,0 +1,54 @@
+import type { Guild, GuildMember } from 'discord.js';
+
+export interface MemberLookup {
+  /** The member the name identifies, or null when it matches nobody or is ambiguous. */
+  member: GuildMember | null;
+  /** Near matches from Discord's member search, to offer back when `member` is null. */
+  candidates: GuildMember[];
+}
+
+/**
+ * Finds a guild member from a name as the agent heard or read it. Members in
+ * the given voice channel are preferred, then cached members, then Discord's
+ * member search. Names come from speech-to-text and may be misheard, so a
+ * search result that isn't an exact match is only accepted when it is the
+ * only one.
+ * @param guild - The guild to search.
+ * @param name - A display name, username or user ID.
+ * @param preferred - Members to check first, typically those in the voice channel.
+ */
+export async function findMember(
+  guild: Guild,
+  name: string,
+  preferred: Iterable<GuildMember> = []
+): Promise<MemberLookup> {
+  const query = name.trim().replace(/^@/, '').toLowerCase();
+  if (!query) return { member: null, candidates: [] };
+
+  const matches = (member: GuildMember) =>
+    member.id === query ||
+    member.displayName.toLowerCase() === query ||
+    member.user.username.toLowerCase() === query;
+
+  for (const member of preferred) {
+    if (matches(member)) return { member, candidates: [] };
+  }
+  const cached = guild.members.cache.find(matches);
+  if (cached) return { member: cached, candidates: [] };
+
+  const results = await guild.members.fetch({ query, limit: 10 });
+  const member = results.find(matches) ?? (results.size === 1 ? results.first() : undefined);
+  return member ? { member, candidates: [] } : { member: null, candidates: [...results.values()] };
+}
+
+/**
+ * A reply for the agent when `findMember` didn't settle on one member, asking
+ * the user to say who they meant.
+ */
+export function describeMemberLookupFailure(name: string, candidates: GuildMember[]): string {
+  if (!candidates.length) {
+    return `I couldn't find anyone called ${name} in this server. Could you say their name again?`;
+  }
+  const names = candidates.slice(0, 5).map(member => member.displayName);
+  return `I'm not sure who you mean by ${name}. Did you mean ${names.join(', ')}? Ask again with their exact name.`;
+}
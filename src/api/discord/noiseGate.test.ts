@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+// The gate's defaults come from the bot config, which refuses to load without credentials.
+process.env.DISCORD_BOT_TOKEN ??= 'test-token';
+process.env.DISCORD_CLIENT_ID ??= 'test-client';
+process.env.AGENT_ID ??= 'test-agent';
+const { NoiseGate } = await import('./noiseGate.js');
+
+/** 20 ms of 8 kHz mono 16-bit PCM. */
+const SAMPLE_RATE = 8000;
+const FRAME_SAMPLES = 160;
+
+const OPTIONS = {
+  openThresholdDbfs: -40,
+  closeThresholdDbfs: -50,
+  hangoverMs: 60,
+  preRollMs: 40,
+};
+
+/** A frame whose RMS level is the given dBFS. */
+function frameAt(dbfs: number): Buffer {
+  const amplitude = Math.round(32768 * 10 ** (dbfs / 20));
+  const frame = Buffer.alloc(FRAME_SAMPLES * 2);
+  for (let i = 0; i < FRAME_SAMPLES; i++) frame.writeInt16LE(amplitude, i * 2);
+  return frame;
+}
+
+const LOUD = frameAt(-10);
+const BETWEEN = frameAt(-45);
+const QUIET = frameAt(-70);
+
+describe('NoiseGate', () => {
+  it('holds back quiet audio', () => {
+    const gate = new NoiseGate(SAMPLE_RATE, OPTIONS);
+    assert.deepEqual(gate.process(QUIET), []);
+    assert.deepEqual(gate.process(BETWEEN), []);
+    assert.equal(gate.isOpen, false);
+  });
+
+  it('opens on speech and releases the pre-roll first', () => {
+    const gate = new NoiseGate(SAMPLE_RATE, OPTIONS);
+    const quiet = [frameAt(-70), frameAt(-65), frameAt(-60)];
+    for (const frame of quiet) gate.process(frame);
+
+    const released = gate.process(LOUD);
+    assert.equal(gate.isOpen, true);
+    assert.equal(released.length, 3);
+    assert.equal(released[0], quiet[1]);
+    assert.equal(released[1], quiet[2]);
+    assert.equal(released[2], LOUD);
+  });
+
+  it('stays open for the hangover after the level drops', () => {
+    const gate = new NoiseGate(SAMPLE_RATE, OPTIONS);
+    gate.process(LOUD);
+
+    assert.deepEqual(gate.process(QUIET), [QUIET]);
+    assert.deepEqual(gate.process(QUIET), [QUIET]);
+    assert.deepEqual(gate.process(QUIET), []);
+    assert.equal(gate.isOpen, false);
+  });
+
+  it('keeps an open gate open between the close and open thresholds', () => {
+    const gate = new NoiseGate(SAMPLE_RATE, OPTIONS);
+    gate.process(LOUD);
+
+    for (let i = 0; i < 10; i++) {
+      assert.deepEqual(gate.process(BETWEEN), [BETWEEN]);
+    }
+    assert.equal(gate.isOpen, true);
+  });
+});
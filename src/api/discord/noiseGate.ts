@@ -0,0 +1,97 @@
+import { VAD_CONFIG } from '../../config/config.js';
+
+export interface NoiseGateOptions {
+  openThresholdDbfs: number;
+  closeThresholdDbfs: number;
+  hangoverMs: number;
+  preRollMs: number;
+}
+
+const DEFAULT_OPTIONS: NoiseGateOptions = {
+  openThresholdDbfs: VAD_CONFIG.OPEN_THRESHOLD_DBFS,
+  closeThresholdDbfs: VAD_CONFIG.CLOSE_THRESHOLD_DBFS,
+  hangoverMs: VAD_CONFIG.HANGOVER_MS,
+  preRollMs: VAD_CONFIG.PRE_ROLL_MS,
+};
+
+/**
+ * Root-mean-square level of a 16-bit PCM frame in dBFS (0 is full scale).
+ */
+function frameLevelDbfs(frame: Buffer): number {
+  const sampleCount = Math.floor(frame.byteLength / 2);
+  if (sampleCount === 0) return -Infinity;
+
+  let sumSquares = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    sumSquares += sample * sample;
+  }
+  const rms = Math.sqrt(sumSquares / sampleCount);
+  return rms > 0 ? 20 * Math.log10(rms / 32768) : -Infinity;
+}
+
+/**
+ * Energy-based voice activity gate for a single speaker. Frames pass while the
+ * speaker is talking; keyboard clicks, breathing and background hum are held
+ * back. Hysteresis, hangover and pre-roll keep word boundaries intact.
+ */
+export class NoiseGate {
+  private readonly options: NoiseGateOptions;
+  private readonly sampleRate: number;
+  private readonly preRoll: Buffer[];
+  private open: boolean;
+  private hangoverRemainingMs: number;
+
+  /**
+   * @param sampleRate - Sample rate of the mono PCM frames being gated.
+   * @param options - Thresholds and timings (defaults to `VAD_CONFIG`).
+   */
+  constructor(sampleRate: number, options: NoiseGateOptions = DEFAULT_OPTIONS) {
+    this.options = options;
+    this.sampleRate = sampleRate;
+    this.preRoll = [];
+    this.open = false;
+    this.hangoverRemainingMs = 0;
+  }
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Runs a frame through the gate.
+   * @returns The frames to forward: empty while gated, the buffered pre-roll plus
+   * this frame when the gate opens, otherwise just this frame.
+   */
+  process(frame: Buffer): Buffer[] {
+    const level = frameLevelDbfs(frame);
+    const frameMs = (frame.byteLength / 2 / this.sampleRate) * 1000;
+
+    if (!this.open) {
+      if (level >= this.options.openThresholdDbfs) {
+        this.open = true;
+        this.hangoverRemainingMs = this.options.hangoverMs;
+        return this.preRoll.splice(0).concat(frame);
+      }
+
+      this.preRoll.push(frame);
+      let preRollMs = this.preRoll.length * frameMs;
+      while (preRollMs > this.options.preRollMs && this.preRoll.length) {
+        this.preRoll.shift();
+        preRollMs -= frameMs;
+      }
+      return [];
+    }
+
+    if (level >= this.options.closeThresholdDbfs) {
+      this.hangoverRemainingMs = this.options.hangoverMs;
+    } else {
+      this.hangoverRemainingMs -= frameMs;
+      if (this.hangoverRemainingMs <= 0) {
+        this.open = false;
+        return [];
+      }
+    }
+    return [frame];
+  }
+}
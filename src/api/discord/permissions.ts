@@ -0,0 +1,61 @@
+import {
+  type GuildBasedChannel,
+  type GuildMember,
+  PermissionFlagsBits,
+  PermissionsBitField,
+  type PermissionResolvable,
+} from 'discord.js';
+import type { AccessRule } from '../../storage/guildSettings.js';
+
+/**
+ * Checks a member against an access rule. Members who can manage the server
+ * always pass, so admins can't lock themselves out.
+ * @param member - The member trying to use a command or tool.
+ * @param rule - The rule to check; none means open to everyone.
+ */
+export function hasAccess(member: GuildMember, rule: AccessRule | undefined): boolean {
+  if (!rule || (!rule.roleIds.length && !rule.permissions.length)) return true;
+  if (member.permissions.has(PermissionFlagsBits.ManageGuild)) return true;
+
+  return (
+    rule.roleIds.some(roleId => member.roles.cache.has(roleId)) ||
+    rule.permissions.some(permission => member.permissions.has(permission))
+  );
+}
+
+/**
+ * Describes an access rule for display, e.g. `@Mods, Manage Messages`.
+ */
+export function describeAccessRule(rule: AccessRule | undefined): string {
+  if (!rule || (!rule.roleIds.length && !rule.permissions.length)) return 'Everyone';
+  return [
+    ...rule.roleIds.map(roleId => `<@&${roleId}>`),
+    ...rule.permissions.map(formatPermission),
+  ].join(', ');
+}
+
+/**
+ * Turns a permission flag name such as `ManageGuild` into `Manage Guild`.
+ */
+export function formatPermission(permission: string): string {
+  return permission.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+/**
+ * Checks that the bot holds every listed permission in a channel.
+ * @returns A sentence the agent can read out naming what is missing, or null
+ * when the bot has everything it needs.
+ */
+export function missingBotPermissions(
+  channel: GuildBasedChannel,
+  permissions: PermissionResolvable[]
+): string | null {
+  const me = channel.guild.members.me;
+  const granted = me ? channel.permissionsFor(me) : null;
+  const missing = new PermissionsBitField(permissions)
+    .toArray()
+    .filter(permission => !granted?.has(permission));
+  if (!missing.length) return null;
+
+  return `I don't have the ${missing.map(formatPermission).join(', ')} permission in #${channel.name}, so I can't do that. A server admin needs to grant it.`;
+}
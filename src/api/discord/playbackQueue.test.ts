@@ -0,0 +1,85 @@
+import type { AudioPlayer } from '@discordjs/voice';
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { PlaybackQueue } from './playbackQueue.js';
+
+/** 20 ms of 48 kHz stereo PCM. */
+const CHUNK = Buffer.alloc(3840);
+
+const queues: PlaybackQueue[] = [];
+
+/**
+ * Counts what the queue asks of its player. The jitter buffer is long enough
+ * that nothing reaches `play`, so no Opus encoder is needed.
+ */
+function createQueue() {
+  const calls = { play: 0, stop: 0 };
+  const player = {
+    on: () => player,
+    play: () => {
+      calls.play++;
+    },
+    stop: () => {
+      calls.stop++;
+      return true;
+    },
+  };
+  const queue = new PlaybackQueue(player as unknown as AudioPlayer, 60_000);
+  queues.push(queue);
+  return { queue, calls };
+}
+
+afterEach(() => {
+  for (const queue of queues.splice(0)) queue.flush();
+});
+
+describe('PlaybackQueue', () => {
+  it('queues audio from an ongoing response', () => {
+    const { queue, calls } = createQueue();
+    assert.equal(queue.enqueue(1, CHUNK), true);
+    assert.equal(queue.enqueue(2, CHUNK), true);
+    assert.equal(calls.play, 0);
+  });
+
+  it('ignores empty chunks', () => {
+    const { queue } = createQueue();
+    assert.equal(queue.enqueue(1, Buffer.alloc(0)), false);
+  });
+
+  it('drops late chunks of an interrupted response', () => {
+    const { queue, calls } = createQueue();
+    queue.enqueue(4, CHUNK);
+    queue.interrupt(5);
+
+    assert.equal(calls.stop, 1);
+    assert.equal(queue.enqueue(5, CHUNK), false);
+    assert.equal(queue.enqueue(3, CHUNK), false);
+    assert.equal(queue.enqueue(6, CHUNK), true);
+  });
+
+  it('never moves the cutoff backwards', () => {
+    const { queue } = createQueue();
+    queue.interrupt(8);
+    queue.interrupt(5);
+
+    assert.equal(queue.enqueue(7, CHUNK), false);
+    assert.equal(queue.enqueue(9, CHUNK), true);
+  });
+
+  it('stops playback without dropping later audio when the event is unknown', () => {
+    const { queue, calls } = createQueue();
+    queue.enqueue(1, CHUNK);
+    queue.interrupt();
+
+    assert.equal(calls.stop, 1);
+    assert.equal(queue.enqueue(1, CHUNK), true);
+  });
+
+  it('accepts event IDs from the start again after a reset', () => {
+    const { queue } = createQueue();
+    queue.interrupt(10);
+    queue.reset();
+
+    assert.equal(queue.enqueue(1, CHUNK), true);
+  });
+});
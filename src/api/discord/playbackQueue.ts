@@ -0,0 +1,142 @@
+import { AudioPlayer, createAudioResource, StreamType } from '@discordjs/voice';
+import { PassThrough } from 'stream';
+import { logger } from '../../config/logger.js';
+
+/** Bytes per millisecond of 48 kHz 16-bit stereo PCM. */
+const BYTES_PER_MS = (48000 * 2 * 2) / 1000;
+
+/**
+ * Plays agent audio in arrival order through a Discord `AudioPlayer`. Each
+ * response starts behind a small jitter buffer, and an interruption drops
+ * every chunk belonging to the interrupted response, including late arrivals.
+ */
+export class PlaybackQueue {
+  private readonly audioPlayer: AudioPlayer;
+  private readonly prebufferBytes: number;
+  private readonly prebufferMs: number;
+  private stream: PassThrough | null;
+  private pending: Buffer[];
+  private pendingBytes: number;
+  private prebufferTimer: NodeJS.Timeout | null;
+  private interruptedEventId: number;
+
+  /**
+   * @param audioPlayer - Player subscribed to the voice connection.
+   * @param prebufferMs - Audio to accumulate before a response starts playing (defaults to 60 ms).
+   */
+  constructor(audioPlayer: AudioPlayer, prebufferMs = 60) {
+    this.audioPlayer = audioPlayer;
+    this.prebufferMs = prebufferMs;
+    this.prebufferBytes = Math.round(prebufferMs * BYTES_PER_MS);
+    this.stream = null;
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.prebufferTimer = null;
+    this.interruptedEventId = -1;
+
+    this.audioPlayer.on('error', error => {
+      logger.error(error, 'AudioPlayer error encountered, ending current PCM stream');
+      this.disposeStream();
+    });
+  }
+
+  /**
+   * Queues a chunk of 48 kHz 16-bit stereo PCM for playback.
+   * @param eventId - The `event_id` of the audio event the chunk came from.
+   * @param pcm - The decoded audio.
+   * @returns Whether the chunk was queued; false when it belongs to an interrupted response.
+   */
+  enqueue(eventId: number, pcm: Buffer): boolean {
+    if (pcm.byteLength === 0) return false;
+    if (eventId <= this.interruptedEventId) {
+      logger.debug(`Dropping audio event ${eventId} from an interrupted response.`);
+      return false;
+    }
+
+    if (this.stream && !this.stream.destroyed) {
+      this.stream.write(pcm);
+      return true;
+    }
+
+    this.pending.push(pcm);
+    this.pendingBytes += pcm.byteLength;
+
+    if (this.pendingBytes >= this.prebufferBytes) {
+      this.startStream();
+    } else if (!this.prebufferTimer) {
+      // Short responses may never fill the buffer; play whatever arrived.
+      this.prebufferTimer = setTimeout(() => this.startStream(), this.prebufferMs);
+    }
+    return true;
+  }
+
+  /**
+   * Stops playback of the interrupted response and discards its buffered and
+   * still-arriving audio. The next response starts on a fresh resource.
+   * @param eventId - The `event_id` from the interruption event, if provided.
+   */
+  interrupt(eventId?: number): void {
+    if (typeof eventId === 'number') {
+      this.interruptedEventId = Math.max(this.interruptedEventId, eventId);
+    }
+    this.flush();
+  }
+
+  /**
+   * Clears all state for a new conversation, whose event IDs start over.
+   */
+  reset(): void {
+    this.interruptedEventId = -1;
+    this.flush();
+  }
+
+  /**
+   * Drops all queued audio and stops the player.
+   */
+  flush(): void {
+    this.clearPending();
+    this.disposeStream();
+    this.audioPlayer.stop(true);
+  }
+
+  private startStream(): void {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    if (!this.pending.length) return;
+
+    this.stream = new PassThrough({ highWaterMark: 4096 });
+    for (const chunk of this.pending) {
+      this.stream.write(chunk);
+    }
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    this.audioPlayer.play(createAudioResource(this.stream, { inputType: StreamType.Raw }));
+  }
+
+  private clearPending(): void {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+
+  /**
+   * Tears down the PCM stream to release resources and stop playback.
+   */
+  private disposeStream(): void {
+    if (!this.stream) return;
+
+    try {
+      this.stream.destroy();
+    } catch (error) {
+      logger.debug(error, 'Error destroying PCM stream');
+    } finally {
+      this.stream = null;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { Guild, GuildMember } from 'discord.js';
+import { logger } from '../../config/logger.js';
+
+/**
+ * Who the agent listens to during a session.
+ * - `open`: every human in the voice channel.
+ * - `owner`: only the member who started the session.
+ * - `allowlist`: the owner plus explicitly allowed users and roles.
+ */
+export type SpeakerMode = 'open' | 'owner' | 'allowlist';
+
+export const SPEAKER_MODE_CHOICES: { name: string; value: SpeakerMode }[] = [
+  { name: 'Open floor', value: 'open' },
+  { name: 'Only me', value: 'owner' },
+  { name: 'Allowlist', value: 'allowlist' },
+];
+
+export interface SpeakerAllowlist {
+  userIds?: string[];
+  roleIds?: string[];
+}
+
+/**
+ * Decides which speakers' audio reaches the agent. Bot accounts are always ignored.
+ */
+export class SpeakerFilter {
+  private readonly guild: Guild;
+  private readonly ownerId: string;
+  private mode: SpeakerMode;
+  private readonly allowedUserIds: Set<string>;
+  private readonly allowedRoleIds: Set<string>;
+  private readonly fetchedMembers: Map<string, GuildMember | null>;
+  private readonly memberFetches: Map<string, Promise<void>>;
+
+  constructor(guild: Guild, ownerId: string, mode: SpeakerMode = 'open') {
+    this.guild = guild;
+    this.ownerId = ownerId;
+    this.mode = mode;
+    this.allowedUserIds = new Set();
+    this.allowedRoleIds = new Set();
+    this.fetchedMembers = new Map();
+    this.memberFetches = new Map();
+  }
+
+  get currentMode(): SpeakerMode {
+    return this.mode;
+  }
+
+  get owner(): string {
+    return this.ownerId;
+  }
+
+  /**
+   * Switches the mode and adds any given users or roles to the allowlist.
+   */
+  setMode(mode: SpeakerMode, allowlist: SpeakerAllowlist = {}): void {
+    this.mode = mode;
+    allowlist.userIds?.forEach(id => this.allowedUserIds.add(id));
+    allowlist.roleIds?.forEach(id => this.allowedRoleIds.add(id));
+  }
+
+  /**
+   * Whether `allows` can judge the user from what is already known. When it
+   * can't, call `loadMember` first so role checks see the member's roles.
+   */
+  hasMember(userId: string): boolean {
+    return this.guild.members.cache.has(userId) || this.fetchedMembers.has(userId);
+  }
+
+  /**
+   * Fetches a member who isn't cached, at most once per user, and keeps the
+   * result for later checks. A failed fetch is remembered, and the user is
+   * then only allowed if they are known not to be a bot.
+   */
+  loadMember(userId: string): Promise<void> {
+    let fetch = this.memberFetches.get(userId);
+    if (!fetch) {
+      fetch = this.guild.members.fetch(userId).then(
+        member => {
+          this.fetchedMembers.set(userId, member);
+        },
+        error => {
+          logger.warn(error, `Could not fetch member ${userId} for the speaker filter`);
+          this.fetchedMembers.set(userId, null);
+        }
+      );
+      this.memberFetches.set(userId, fetch);
+    }
+    return fetch;
+  }
+
+  /**
+   * Returns whether audio from the given user should be forwarded to the agent.
+   */
+  allows(userId: string): boolean {
+    const member = this.guild.members.cache.get(userId) ?? this.fetchedMembers.get(userId);
+    const user = member?.user ?? this.guild.client.users.cache.get(userId);
+    // Without a member or user there is no telling whether they are a bot.
+    if (!user && this.fetchedMembers.get(userId) === null) return false;
+    if (user?.bot) return false;
+
+    switch (this.mode) {
+      case 'open':
+        return true;
+      case 'owner':
+        return userId === this.ownerId;
+      case 'allowlist':
+        if (userId === this.ownerId || this.allowedUserIds.has(userId)) return true;
+        return !!member?.roles.cache.some(role => this.allowedRoleIds.has(role.id));
+    }
+  }
+
+  /**
+   * Human-readable summary of the current mode, for command replies.
+   */
+  describe(): string {
+    switch (this.mode) {
+      case 'open':
+        return 'Listening to everyone in the voice channel.';
+      case 'owner':
+        return `Listening only to <@${this.ownerId}>.`;
+      case 'allowlist': {
+        const entries = [
+          `<@${this.ownerId}>`,
+          ...Array.from(this.allowedUserIds, id => `<@${id}>`),
+          ...Array.from(this.allowedRoleIds, id => `<@&${id}>`),
+        ];
+        return `Listening to: ${entries.join(', ')}.`;
+      }
+    }
+  }
+}
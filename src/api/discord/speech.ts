@@ -9,8 +9,16 @@ import {
   entersState,
 } from '@discordjs/voice';
 import { logger } from '../../config/logger.js';
+import { VAD_CONFIG } from '../../config/config.js';
 import { Agent } from '../elevenlabs/agent.js';
+import { AudioMixer } from './audioMixer.js';
+import { NoiseGate } from './noiseGate.js';
+import { SpeakerFilter } from './speakerFilter.js';
 import { delay } from '../../utils/time.js';
+import { DISCORD_SAMPLE_RATE, PcmResampler } from '../../utils/audioUtils.js';
+
+/** Sample rates the Opus decoder can output directly. */
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
 
 /**
  * Streams Discord voice packets to the ElevenLabs agent and keeps per-user
@@ -18,27 +26,37 @@ import { delay } from '../../utils/time.js';
  */
 class SpeechHandler {
   private speakingUsers: Map<string, AudioReceiveStream>;
+  private decoders: Map<string, opus.OpusEncoder>;
+  private gates: Map<string, NoiseGate>;
+  private lastSpokeAt: Map<string, number>;
   private client: Agent;
-  private decoder: opus.OpusEncoder;
+  private mixer: AudioMixer | null;
   private connection: VoiceConnection;
+  private filter: SpeakerFilter;
+  private decodeRate: number;
+  private recordingTap: ((userId: string, pcm: Buffer) => void) | null;
+  private paused: boolean;
+  private stopped: boolean;
   private speakingListener?: (userId: string) => void;
 
   /**
-   * @param client - ElevenLabs agent that receives PCM chunks.
+   * @param client - ElevenLabs agent that receives the mixed PCM stream.
    * @param connection - Active Discord voice connection to monitor.
-   * @param sampleRate - PCM sample rate expected by ElevenLabs (defaults to 16 kHz).
-   * @param channels - Number of channels to decode to (defaults to mono).
+   * @param filter - Decides whose audio is forwarded to the agent.
    */
-  constructor(
-    client: Agent,
-    connection: VoiceConnection,
-    sampleRate = 16000,
-    channels = 1
-  ) {
+  constructor(client: Agent, connection: VoiceConnection, filter: SpeakerFilter) {
     this.speakingUsers = new Map();
+    this.decoders = new Map();
+    this.gates = new Map();
+    this.lastSpokeAt = new Map();
     this.client = client;
-    this.decoder = new opus.OpusEncoder(sampleRate, channels);
+    this.mixer = null;
     this.connection = connection;
+    this.filter = filter;
+    this.decodeRate = DISCORD_SAMPLE_RATE;
+    this.recordingTap = null;
+    this.paused = false;
+    this.stopped = false;
   }
 
   /**
@@ -47,6 +65,7 @@ class SpeechHandler {
    */
   async initialize(): Promise<void> {
     await this.client.connect();
+    this.createMixer();
 
     this.speakingListener = (userId: string) => {
       this.handleUserSpeaking(userId);
@@ -54,20 +73,97 @@ class SpeechHandler {
 
     this.connection.receiver.speaking.on('start', this.speakingListener);
     this.connection.on('stateChange', this.handleConnectionStateChange);
+    this.mixer?.start();
   }
 
   /**
-   * Creates a receive stream the first time a user speaks during the session.
-   * Subsequent speaking events reuse the existing subscription.
+   * Builds the mixer for the sample rate the agent negotiated. Rates the Opus
+   * decoder supports are decoded directly; anything else is decoded at 48 kHz
+   * and resampled after mixing. With `VAD_GATED_AUDIO=drop`, nothing is sent
+   * while every speaker is gated.
+   */
+  private createMixer(): void {
+    const { sampleRate } = this.client.inputFormat;
+    this.decodeRate = OPUS_SAMPLE_RATES.includes(sampleRate) ? sampleRate : DISCORD_SAMPLE_RATE;
+
+    const resampler = new PcmResampler(this.decodeRate, sampleRate);
+    this.mixer = new AudioMixer(
+      frame => this.client.appendInputAudio(resampler.process(frame)),
+      this.decodeRate,
+      VAD_CONFIG.GATED_AUDIO === 'silence'
+    );
+  }
+
+  /**
+   * Sample rate of the mono PCM handed to the recording tap. Valid once
+   * `initialize()` has resolved.
+   */
+  get inputSampleRate(): number {
+    return this.decodeRate;
+  }
+
+  /**
+   * Receives every speaker's audio exactly as it is forwarded to the agent,
+   * before mixing. Pass null to stop.
+   */
+  setRecordingTap(tap: ((userId: string, pcm: Buffer) => void) | null): void {
+    this.recordingTap = tap;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stops or resumes forwarding members' audio to the agent. While paused,
+   * speech is dropped as it arrives; receive streams stay open so resuming
+   * is instant.
+   */
+  setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    logger.info(paused ? 'Paused listening.' : 'Resumed listening.');
+  }
+
+  /**
+   * Timestamp of the most recent audio forwarded to the agent, or 0 if nobody has spoken.
+   */
+  get lastActivityAt(): number {
+    return Math.max(0, ...this.lastSpokeAt.values());
+  }
+
+  /**
+   * Returns the users whose audio reached the agent within the given window,
+   * most recent first. Used to attribute transcripts to speakers.
+   * @param withinMs - How far back to look (defaults to 10 seconds).
+   */
+  getRecentSpeakers(withinMs = 10_000): string[] {
+    const cutoff = Date.now() - withinMs;
+    return Array.from(this.lastSpokeAt)
+      .filter(([, spokeAt]) => spokeAt >= cutoff)
+      .sort(([, a], [, b]) => b - a)
+      .map(([userId]) => userId);
+  }
+
+  /**
+   * Creates a receive stream the first time an allowed user speaks during the
+   * session. Subsequent speaking events reuse the existing subscription.
+   * Members missing from the cache are fetched before the filter decides;
+   * if the session has ended by the time the fetch returns, nothing happens.
    */
   private handleUserSpeaking(userId: string): void {
-    if (this.speakingUsers.has(userId)) return;
+    if (this.stopped || this.speakingUsers.has(userId)) return;
+    if (!this.filter.hasMember(userId)) {
+      this.filter.loadMember(userId).then(() => this.handleUserSpeaking(userId));
+      return;
+    }
+    if (!this.filter.allows(userId)) return;
 
     this.createUserAudioStream(userId);
   }
 
   /**
-   * Subscribes to a user's Opus stream and forwards decoded audio to ElevenLabs
+   * Subscribes to a user's Opus stream and feeds decoded audio into the mixer
    * until the stream ends or errors.
    */
   private async createUserAudioStream(userId: string): Promise<void> {
@@ -79,7 +175,7 @@ class SpeechHandler {
       this.registerUserStream(userId, opusAudioStream);
 
       for await (const opusBuffer of opusAudioStream) {
-        this.processAudio(opusBuffer);
+        this.processAudio(userId, opusBuffer);
       }
     } catch (error) {
       logger.error(error, `Error subscribing to user audio: ${userId}`);
@@ -89,12 +185,26 @@ class SpeechHandler {
   }
 
   /**
-   * Decodes an Opus frame and forwards the PCM payload to the agent.
+   * Decodes an Opus frame with the speaker's own decoder, runs it through their
+   * noise gate and queues whatever passes for mixing. Frames from users the
+   * filter no longer allows (after a mode change) and frames arriving while
+   * listening is paused are dropped.
    */
-  private processAudio(opusBuffer: Buffer): void {
+  private processAudio(userId: string, opusBuffer: Buffer): void {
+    const decoder = this.decoders.get(userId);
+    if (!decoder || !this.mixer || this.paused || !this.filter.allows(userId)) return;
+
     try {
-      const pcm = this.decoder.decode(opusBuffer);
-      this.client.appendInputAudio(pcm);
+      const pcm = decoder.decode(opusBuffer);
+      const gate = this.gates.get(userId);
+      const frames = gate ? gate.process(pcm) : [pcm];
+      if (!frames.length) return;
+
+      for (const frame of frames) {
+        this.mixer.push(userId, frame);
+        this.recordingTap?.(userId, frame);
+      }
+      this.lastSpokeAt.set(userId, Date.now());
     } catch (error) {
       logger.error(error, 'Error processing audio for transcription');
     }
@@ -105,6 +215,7 @@ class SpeechHandler {
    * ElevenLabs session.
    */
   private cleanup(): void {
+    this.stopped = true;
     if (this.speakingListener) {
       this.connection.receiver.speaking.off('start', this.speakingListener);
       this.speakingListener = undefined;
@@ -115,15 +226,20 @@ class SpeechHandler {
     for (const userId of Array.from(this.speakingUsers.keys())) {
       this.removeUserStream(userId);
     }
+    this.mixer?.stop();
     this.client.disconnect();
   }
 
   /**
-   * Tracks the receive stream for a user and attaches once-only lifecycle
-   * handlers so we can dispose it when it ends.
+   * Tracks the receive stream for a user, gives them a dedicated Opus decoder
+   * and noise gate, and attaches once-only lifecycle handlers so we can dispose it when it ends.
    */
   private registerUserStream(userId: string, stream: AudioReceiveStream): void {
     this.speakingUsers.set(userId, stream);
+    this.decoders.set(userId, new opus.OpusEncoder(this.decodeRate, 1));
+    if (VAD_CONFIG.ENABLED) {
+      this.gates.set(userId, new NoiseGate(this.decodeRate));
+    }
 
     stream.once('end', () => {
       this.removeUserStream(userId);
@@ -140,14 +256,17 @@ class SpeechHandler {
   }
 
   /**
-   * Removes the stored stream for the user and destroys the underlying
-   * `AudioReceiveStream`.
+   * Removes the stored stream, decoder, gate and mixer track for the user and destroys
+   * the underlying `AudioReceiveStream`.
    */
   private removeUserStream(userId: string): void {
     const stream = this.speakingUsers.get(userId);
     if (!stream) return;
 
     this.speakingUsers.delete(userId);
+    this.decoders.delete(userId);
+    this.gates.delete(userId);
+    this.mixer?.removeSpeaker(userId);
 
     stream.removeAllListeners();
     try {
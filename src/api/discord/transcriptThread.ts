@@ -0,0 +1,116 @@
+import { ThreadAutoArchiveDuration, type TextChannel, type ThreadChannel } from 'discord.js';
+import { logger } from '../../config/logger.js';
+
+/** How often queued transcript lines are flushed to Discord. */
+const FLUSH_INTERVAL_MS = 2_000;
+
+/** Discord's maximum message length. */
+const MAX_MESSAGE_LENGTH = 2_000;
+
+/**
+ * Posts conversation turns to a Discord thread, batching lines into as few
+ * messages as possible to stay clear of rate limits.
+ */
+export class TranscriptThread {
+  private readonly thread: ThreadChannel;
+  private readonly pending: string[];
+  private timer: NodeJS.Timeout | null;
+  private flushing: Promise<void> | null;
+  private closed: boolean;
+
+  constructor(thread: ThreadChannel) {
+    this.thread = thread;
+    this.pending = [];
+    this.timer = null;
+    this.flushing = null;
+    this.closed = false;
+  }
+
+  /**
+   * Opens a new transcript thread in the given text channel.
+   * @param textChannel - Channel the session was started from.
+   * @param voiceChannelName - Name of the voice channel, used in the thread title.
+   */
+  static async open(textChannel: TextChannel, voiceChannelName: string): Promise<TranscriptThread> {
+    const thread = await textChannel.threads.create({
+      name: `Transcript · ${voiceChannelName} · ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`,
+      autoArchiveDuration: ThreadAutoArchiveDuration.OneHour,
+      reason: 'Live transcript for a voice session',
+    });
+    return new TranscriptThread(thread);
+  }
+
+  get channel(): ThreadChannel {
+    return this.thread;
+  }
+
+  /**
+   * Queues a user turn attributed to the given display name.
+   */
+  postUserTurn(speakerName: string, text: string): void {
+    this.enqueue(`**${speakerName}:** ${text}`);
+  }
+
+  /**
+   * Queues an agent turn.
+   */
+  postAgentTurn(text: string): void {
+    this.enqueue(`**Agent:** ${text}`);
+  }
+
+  /**
+   * Flushes any remaining lines and stops the batching timer.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.flushing;
+    while (this.pending.length) {
+      await this.flush();
+    }
+  }
+
+  private enqueue(line: string): void {
+    this.pending.push(line.length > MAX_MESSAGE_LENGTH ? line.slice(0, MAX_MESSAGE_LENGTH) : line);
+    if (!this.timer && !this.closed) {
+      this.timer = setTimeout(this.handleTimer, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private handleTimer = async (): Promise<void> => {
+    if (!this.flushing) {
+      this.flushing = this.flush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    await this.flushing;
+
+    if (this.closed) return;
+    this.timer = this.pending.length ? setTimeout(this.handleTimer, FLUSH_INTERVAL_MS) : null;
+  };
+
+  /**
+   * Sends as many queued lines as fit in a single message.
+   */
+  private async flush(): Promise<void> {
+    if (!this.pending.length) return;
+
+    let content = this.pending.shift()!;
+    while (
+      this.pending.length &&
+      content.length + 1 + this.pending[0].length <= MAX_MESSAGE_LENGTH
+    ) {
+      content += `\n${this.pending.shift()}`;
+    }
+
+    try {
+      await this.thread.send({ content, allowedMentions: { parse: [] } });
+    } catch (error) {
+      logger.error(error, 'Failed to post transcript to thread');
+    }
+  }
+}
@@ -1,16 +1,83 @@
-import { AudioPlayer, createAudioResource, StreamType } from '@discordjs/voice';
+import { AudioPlayer } from '@discordjs/voice';
 import WebSocket from 'ws';
 import { logger } from '../../config/logger.js';
 import { ELEVENLABS_CONFIG } from '../../config/config.js';
 import type {
+  AgentEventMap,
   AgentResponseEvent,
   AudioEvent,
+  ClientMessage,
   ClientToolCallEvent,
+  ConversationConfigOverride,
+  ConversationInitiationMetadataEvent,
+  InterruptionEvent,
+  DynamicVariables,
+  PingEvent,
+  ServerEvent,
   UserTranscriptEvent,
 } from './types/websocket.js';
-import { base64MonoPcmToStereo } from '../../utils/audioUtils.js';
-import { PassThrough } from 'stream';
+import {
+  type AudioFormat,
+  DEFAULT_AUDIO_FORMAT,
+  DISCORD_SAMPLE_RATE,
+  decodeMuLaw,
+  encodeMuLaw,
+  monoPcmToStereo,
+  parseAudioFormat,
+  PcmResampler,
+} from '../../utils/audioUtils.js';
+import { LatencyTracker, type LatencySnapshot } from '../../utils/latencyTracker.js';
+import { EventEmitter } from 'events';
 import { ToolRegistry } from './tools/toolRegistry.js';
+import { ToolExecutor } from './tools/toolExecutor.js';
+import { validateToolParameters } from './tools/toolSchema.js';
+import { PlaybackQueue } from '../discord/playbackQueue.js';
+import { AgentAuthError, fetchSignedUrl } from './signedUrl.js';
+import type { AgentProfile } from './types/profiles.js';
+
+/** Log the rolling latency at info level once every this many pings. */
+const LATENCY_LOG_INTERVAL = 10;
+
+/** How long to wait for `conversation_initiation_metadata` before assuming defaults. */
+const METADATA_TIMEOUT_MS = 10_000;
+
+/** How long the WebSocket opening handshake may take before the attempt fails. */
+const HANDSHAKE_TIMEOUT_MS = 10_000;
+
+/**
+ * Close codes that mean the connection broke rather than the conversation
+ * ending: going away, abnormal closure, server error, service restart, try
+ * again later and bad gateway. Anything else, such as a normal close after
+ * `end_call` or the agent's maximum duration, ends the conversation.
+ */
+const RECONNECTABLE_CLOSE_CODES = new Set([1001, 1006, 1011, 1012, 1013, 1014]);
+
+/**
+ * Combines a profile's default overrides with per-session ones, section by
+ * section, letting the session win.
+ */
+function mergeOverrides(
+  base: ConversationConfigOverride | undefined,
+  session: ConversationConfigOverride | undefined
+): ConversationConfigOverride | undefined {
+  if (!base || !session) return session ?? base;
+
+  const merged: ConversationConfigOverride = {};
+  if (base.agent || session.agent) merged.agent = { ...base.agent, ...session.agent };
+  if (base.tts || session.tts) merged.tts = { ...base.tts, ...session.tts };
+  return merged;
+}
+
+export type AgentConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface AgentOptions {
+  /** Agent to talk to and its default overrides (defaults to `AGENT_ID`). */
+  profile?: AgentProfile;
+  /** Per-session overrides sent in `conversation_initiation_client_data`. */
+  overrides?: ConversationConfigOverride;
+  /** Values for the `{{variables}}` referenced in the agent's prompt and first message. */
+  dynamicVariables?: DynamicVariables;
+}
 
 /**
  * Orchestrates the ElevenLabs Agent, maintains the WebSocket session,
@@ -18,19 +85,102 @@ import { ToolRegistry } from './tools/toolRegistry.js';
  */
 export class Agent {
   private socket: WebSocket | null;
-  private pcmStream: PassThrough | null;
   private readonly audioPlayer: AudioPlayer;
+  private readonly playback: PlaybackQueue;
   private readonly toolRegistry: ToolRegistry;
-
-  constructor(audioPlayer: AudioPlayer, toolRegistry: ToolRegistry) {
+  private readonly toolExecutor: ToolExecutor;
+  private readonly options: AgentOptions;
+  private readonly events: EventEmitter;
+  private readonly latency: LatencyTracker;
+  private pingCount: number;
+  private intentionalClose: boolean;
+  private reconnectAttempts: number;
+  private reconnectTimer: NodeJS.Timeout | null;
+  private outputFormat: AudioFormat;
+  private userInputFormat: AudioFormat;
+  private outputResampler: PcmResampler;
+  private lastAudioAt: number;
+  private speechStopped: boolean;
+
+  constructor(audioPlayer: AudioPlayer, toolRegistry: ToolRegistry, options: AgentOptions = {}) {
     this.audioPlayer = audioPlayer;
     this.toolRegistry = toolRegistry;
+    this.toolExecutor = new ToolExecutor((toolCallId, output, isError) =>
+      this.sendToolResponse(toolCallId, output, isError)
+    );
+    this.options = options;
     this.socket = null;
-    this.pcmStream = null;
+    this.playback = new PlaybackQueue(audioPlayer);
+    this.events = new EventEmitter();
+    this.latency = new LatencyTracker();
+    this.pingCount = 0;
+    this.intentionalClose = false;
+    this.reconnectAttempts = 0;
+    this.reconnectTimer = null;
+    this.outputFormat = DEFAULT_AUDIO_FORMAT;
+    this.userInputFormat = DEFAULT_AUDIO_FORMAT;
+    this.outputResampler = new PcmResampler(DEFAULT_AUDIO_FORMAT.sampleRate, DISCORD_SAMPLE_RATE);
+    this.lastAudioAt = 0;
+    this.speechStopped = false;
+  }
+
+  /**
+   * Timestamp of the most recent audio chunk received from the agent, or 0 if none yet.
+   */
+  public get lastActivityAt(): number {
+    return this.lastAudioAt;
+  }
+
+  /**
+   * Current state of the agent WebSocket, for status reporting.
+   */
+  public get connectionState(): AgentConnectionState {
+    if (this.socket?.readyState === WebSocket.OPEN) return 'open';
+    if (!this.intentionalClose && this.reconnectAttempts > 0) return 'reconnecting';
+    if (this.socket?.readyState === WebSocket.CONNECTING) return 'connecting';
+    return 'closed';
+  }
+
+  /**
+   * The audio format the agent expects for user input, as negotiated in
+   * `conversation_initiation_metadata`. Valid once `connect()` has resolved.
+   */
+  public get inputFormat(): AudioFormat {
+    return this.userInputFormat;
+  }
+
+  /**
+   * Subscribes to an ElevenLabs WebSocket event or a connection lifecycle event.
+   * Every server event is published, including those the agent does not act on
+   * itself (e.g. `vad_score`).
+   * @param eventType - The event type to listen for.
+   * @param listener - Called with the typed event payload.
+   * @returns A function that removes the listener.
+   */
+  public on<K extends keyof AgentEventMap>(
+    eventType: K,
+    listener: (event: AgentEventMap[K]) => void
+  ): () => void {
+    this.events.on(eventType, listener);
+    return () => this.events.off(eventType, listener);
   }
 
   /**
-   * Establishes a WebSocket connection to the ElevenLabs Agent.
+   * Publishes an event to subscribers, isolating the agent from listener failures.
+   */
+  private emit<K extends keyof AgentEventMap>(eventType: K, event: AgentEventMap[K]): void {
+    for (const listener of this.events.listeners(eventType)) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error(error, `Listener for '${String(eventType)}' threw an error`);
+      }
+    }
+  }
+
+  /**
+   * Establishes a WebSocket connection to the ElevenLabs Agent. If the socket later
+   * closes unexpectedly, the agent reconnects with exponential backoff.
    * @returns A promise that resolves when the connection is open, or rejects on error.
    */
   public async connect(): Promise<void> {
@@ -39,43 +189,218 @@ export class Agent {
       return;
     }
 
+    this.intentionalClose = false;
+    this.reconnectAttempts = 0;
+    await this.openSocket();
+  }
+
+  /**
+   * Resolves the URL for a new conversation. With an API key configured, a fresh
+   * signed URL is requested for every connection since they are single-use.
+   */
+  private async resolveSocketUrl(): Promise<string> {
+    const agentId = this.options.profile?.agentId ?? ELEVENLABS_CONFIG.AGENT_ID;
+    const apiKey = ELEVENLABS_CONFIG.API_KEY;
+    if (!apiKey) {
+      return `${ELEVENLABS_CONFIG.WS_BASE_URL}?agent_id=${encodeURIComponent(agentId)}`;
+    }
+
+    logger.debug('Requesting signed URL for ElevenLabs Agent.');
+    return fetchSignedUrl(agentId, apiKey);
+  }
+
+  /**
+   * Opens a new socket and resolves once it is ready for traffic and the
+   * conversation's audio formats are known.
+   */
+  private async openSocket(): Promise<void> {
+    const url = await this.resolveSocketUrl();
+    // Subscribe before opening so metadata arriving right after the handshake isn't missed.
+    const metadataReceived = this.waitForEvent(
+      'conversation_initiation_metadata',
+      METADATA_TIMEOUT_MS
+    );
+
     await new Promise<void>((resolve, reject) => {
       logger.info('Connecting to ElevenLabs Agent WebSocket...');
-      this.socket = new WebSocket(ELEVENLABS_CONFIG.AGENT_WS_URL, { perMessageDeflate: false });
+      this.latency.reset();
+      this.pingCount = 0;
+      const socket = new WebSocket(url, {
+        perMessageDeflate: false,
+        handshakeTimeout: HANDSHAKE_TIMEOUT_MS,
+      });
+      this.socket = socket;
 
       const handleOpen = () => {
         logger.info('Connected to ElevenLabs Agent WebSocket.');
-        this.socket?.removeListener('error', handleError);
-        this.bindAudioPlayerEvents();
+        socket.removeListener('error', handleError);
+        socket.on('error', error => {
+          logger.error(error, 'ElevenLabs Agent WebSocket encountered an error');
+        });
+        socket.on('close', (code: number, reason: Buffer) => this.handleClose(code, reason));
+        this.playback.reset();
+        this.speechStopped = false;
+        this.sendInitiationData();
         resolve();
       };
 
       const handleError = (error: Error) => {
         logger.error(error, 'ElevenLabs Agent WebSocket encountered an error');
-        this.socket?.removeListener('open', handleOpen);
+        socket.removeListener('open', handleOpen);
         this.audioPlayer.stop();
+        if (/Unexpected server response: 40[13]/.test(error.message)) {
+          reject(new AgentAuthError(`ElevenLabs rejected the connection: ${error.message}`));
+          return;
+        }
         reject(new Error(`Error during ElevenLabs Agent WebSocket connection: ${error.message}`));
       };
 
-      this.socket?.once('open', handleOpen);
-      this.socket?.once('error', handleError);
+      socket.once('open', handleOpen);
+      socket.once('error', handleError);
+      socket.on('message', message => this.handleEvent(message));
+    });
+
+    if (!(await metadataReceived)) {
+      logger.warn('No conversation_initiation_metadata received; assuming default audio formats.');
+    }
+  }
 
-      this.socket?.on('close', (code: number, reason: Buffer) => {
-        logger.info(`ElevenLabs Agent WebSocket closed with code ${code}. Reason: ${reason.toString()}`);
-        this.cleanup();
+  /**
+   * Resolves with the next event of the given type, or null after the timeout.
+   */
+  private waitForEvent<K extends keyof AgentEventMap>(
+    eventType: K,
+    timeoutMs: number
+  ): Promise<AgentEventMap[K] | null> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(null);
+      }, timeoutMs);
+      const unsubscribe = this.on(eventType, event => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(event);
       });
+    });
+  }
 
-      this.socket?.on('message', message => this.handleEvent(message));
+  /**
+   * Records the audio formats negotiated for the conversation so input can be
+   * encoded and output decoded correctly.
+   * @param event - The ConversationInitiationMetadataEvent from the WebSocket.
+   */
+  private handleInitiationMetadata(event: ConversationInitiationMetadataEvent): void {
+    const metadata = event.conversation_initiation_metadata_event;
+    const output = parseAudioFormat(metadata?.agent_output_audio_format);
+    const input = parseAudioFormat(metadata?.user_input_audio_format);
+
+    if (!output || !input) {
+      logger.warn(
+        `Unrecognised audio formats (output: ${metadata?.agent_output_audio_format}, input: ${metadata?.user_input_audio_format}); using defaults where needed.`
+      );
+    }
+
+    this.outputFormat = output ?? DEFAULT_AUDIO_FORMAT;
+    this.userInputFormat = input ?? DEFAULT_AUDIO_FORMAT;
+    this.outputResampler = new PcmResampler(this.outputFormat.sampleRate, DISCORD_SAMPLE_RATE);
+
+    logger.info(
+      `Conversation ${metadata?.conversation_id} started (output: ${this.outputFormat.encoding} ${this.outputFormat.sampleRate} Hz, input: ${this.userInputFormat.encoding} ${this.userInputFormat.sampleRate} Hz).`
+    );
+  }
+
+  /**
+   * Sends `conversation_initiation_client_data` so the conversation starts with
+   * this session's overrides and dynamic variables. Sent on every (re)connect.
+   */
+  private sendInitiationData(): void {
+    const { profile, dynamicVariables } = this.options;
+    const overrides = mergeOverrides(profile?.overrides, this.options.overrides);
+    this.send({
+      type: 'conversation_initiation_client_data',
+      ...(overrides && { conversation_config_override: overrides }),
+      ...(dynamicVariables && { dynamic_variables: dynamicVariables }),
     });
   }
 
+  /**
+   * Handles the socket closing after it was open. Closes we did not initiate
+   * trigger the reconnect policy when the connection broke; when the server
+   * ended the conversation, `conversation_ended` is published instead.
+   */
+  private handleClose(code: number, reason: Buffer): void {
+    logger.info(
+      `ElevenLabs Agent WebSocket closed with code ${code}. Reason: ${reason.toString()}`
+    );
+    this.closeSocket();
+    this.playback.flush();
+    this.toolExecutor.cancelAll();
+    if (this.intentionalClose) return;
+
+    if (RECONNECTABLE_CLOSE_CODES.has(code)) {
+      this.scheduleReconnect();
+      return;
+    }
+    this.intentionalClose = true;
+    this.emit('conversation_ended', { code, reason: reason.toString() });
+  }
+
+  /**
+   * Schedules the next reconnect attempt, or gives up and publishes
+   * `connection_lost` once the configured attempts are exhausted. Input audio
+   * is dropped while disconnected, since stale speech would only confuse the
+   * agent once the new conversation starts.
+   */
+  private scheduleReconnect(): void {
+    const maxAttempts = ELEVENLABS_CONFIG.RECONNECT_MAX_ATTEMPTS;
+    const attempt = ++this.reconnectAttempts;
+
+    if (attempt > maxAttempts) {
+      logger.error(`Giving up on ElevenLabs Agent after ${maxAttempts} reconnect attempts.`);
+      this.cleanup();
+      this.emit('connection_lost', { attempts: maxAttempts });
+      return;
+    }
+
+    const delayMs = Math.min(
+      ELEVENLABS_CONFIG.RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+      ELEVENLABS_CONFIG.RECONNECT_MAX_DELAY_MS
+    );
+    logger.warn(
+      `Reconnecting to ElevenLabs Agent (attempt ${attempt}/${maxAttempts}) in ${delayMs}ms.`
+    );
+    this.emit('reconnecting', { attempt, maxAttempts, delayMs });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.intentionalClose) return;
+
+      try {
+        await this.openSocket();
+        this.reconnectAttempts = 0;
+        logger.info(`Reconnected to ElevenLabs Agent after ${attempt} attempt(s).`);
+        this.emit('reconnected', { attempt });
+      } catch (error) {
+        logger.warn(error, `Reconnect attempt ${attempt} failed`);
+        this.closeSocket();
+        if (error instanceof AgentAuthError) {
+          // Credentials won't fix themselves between attempts.
+          this.reconnectAttempts = ELEVENLABS_CONFIG.RECONNECT_MAX_ATTEMPTS;
+        }
+        this.scheduleReconnect();
+      }
+    }, delayMs);
+  }
+
   /**
    * Cleans up WebSocket resources by closing the connection and removing all listeners.
    */
   private cleanup(): void {
     logger.info('Cleaning up ElevenLabs resources...');
     this.closeSocket();
-    this.disposePcmStream();
+    this.playback.flush();
+    this.toolExecutor.cancelAll();
     logger.info('Cleanup finished.');
   }
 
@@ -84,82 +409,164 @@ export class Agent {
    */
   public disconnect(): void {
     logger.info('Disconnecting from ElevenLabs...');
+    this.intentionalClose = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     this.cleanup();
   }
 
   /**
-   * Registers error handling on the Discord audio player to keep the PCM stream healthy.
+   * Ends the current conversation and starts a new one on a fresh socket, e.g.
+   * when the agent has lost the thread. If the new socket can't be opened, the
+   * reconnect policy takes over as if the connection had dropped.
+   * @throws If the new conversation could not be started.
    */
-  private bindAudioPlayerEvents(): void {
-    this.audioPlayer.removeAllListeners();
-    this.audioPlayer.on('error', error => {
-      logger.error(error, 'AudioPlayer error encountered, ending current PCM stream');
-      this.disposePcmStream();
-    });
+  public async restart(): Promise<void> {
+    logger.info('Restarting the ElevenLabs conversation...');
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.cleanup();
+    this.intentionalClose = false;
+    this.reconnectAttempts = 0;
+
+    try {
+      await this.openSocket();
+    } catch (error) {
+      this.closeSocket();
+      if (!this.intentionalClose) this.scheduleReconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * Cuts the agent off mid-sentence: queued audio is dropped and so is the rest
+   * of the current response. Playback resumes with the response to whatever
+   * users say or type next.
+   */
+  public stopSpeaking(): void {
+    logger.info('Stopping the agent mid-response.');
+    this.speechStopped = true;
+    this.playback.flush();
   }
 
   /**
    * Appends a new audio chunk to the input stream for the ElevenLabs Agent.
-   * @param buffer - PCM 16 kHz mono audio buffer to append, converted to base64 for transport.
+   * Chunks are dropped while the socket is not open, e.g. during a reconnect.
+   * @param buffer - Mono 16-bit PCM at `inputFormat.sampleRate`; encoded to μ-law when the
+   * agent expects it and to base64 for transport.
    */
   public appendInputAudio(buffer: Buffer): void {
-    if (buffer.byteLength === 0 || this.socket?.readyState !== WebSocket.OPEN) return;
+    if (buffer.byteLength === 0) return;
+
+    const payload = this.userInputFormat.encoding === 'ulaw' ? encodeMuLaw(buffer) : buffer;
+    this.send({ user_audio_chunk: payload.toString('base64') });
+  }
+
+  /**
+   * Sends a typed message to the agent as a user turn.
+   * @param text - The message text.
+   * @returns Whether the message was sent; false when the socket is not open.
+   */
+  public sendUserMessage(text: string): boolean {
+    if (!text.trim() || !this.send({ type: 'user_message', text })) return false;
+    this.speechStopped = false;
+    return true;
+  }
+
+  /**
+   * Gives the agent background information without prompting a response.
+   * @param text - The context to add to the conversation.
+   * @returns Whether the update was sent; false when the socket is not open.
+   */
+  public sendContextualUpdate(text: string): boolean {
+    if (!text.trim()) return false;
+    return this.send({ type: 'contextual_update', text });
+  }
+
+  /**
+   * Returns the rolling round-trip latency reported by the server in `ping` events.
+   */
+  public getLatency(): LatencySnapshot {
+    return this.latency.snapshot();
+  }
+
+  /**
+   * Serializes a message onto the socket.
+   * @returns Whether the message was sent; false when the socket is not open.
+   */
+  private send(message: ClientMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
 
-    const base64Audio = {
-      user_audio_chunk: buffer.toString('base64'),
-    };
-    this.socket.send(JSON.stringify(base64Audio));
+    this.socket.send(JSON.stringify(message));
+    return true;
   }
 
   /**
-   * Handles an interruption event from the ElevenLabs AI, stopping current audio playback.
+   * Answers a server `ping` with a matching `pong` and records the reported latency.
+   * @param event - The PingEvent from the WebSocket.
    */
-  private handleInterruption(): void {
+  private handlePing(event: PingEvent): void {
+    const { event_id: eventId, ping_ms: pingMs } = event.ping_event ?? {};
+    if (typeof eventId !== 'number') {
+      logger.warn('Received ping event without an event_id.');
+      return;
+    }
+
+    this.send({ type: 'pong', event_id: eventId });
+
+    if (typeof pingMs !== 'number') return;
+    this.latency.record(pingMs);
+    this.pingCount++;
+
+    if (this.pingCount % LATENCY_LOG_INTERVAL === 0) {
+      const { averageMs, lastMs } = this.latency.snapshot();
+      logger.info(`ElevenLabs round-trip latency: avg ${averageMs}ms (last ${lastMs}ms).`);
+    } else {
+      logger.debug(`ElevenLabs ping ${eventId}: ${pingMs}ms.`);
+    }
+  }
+
+  /**
+   * Handles an interruption event from the ElevenLabs AI, stopping current audio
+   * playback and discarding the rest of the interrupted response.
+   * @param event - The InterruptionEvent from the WebSocket.
+   */
+  private handleInterruption(event: InterruptionEvent): void {
     logger.info('Conversation interrupted. Stopping audio playback.');
-    this.audioPlayer.stop();
+    this.playback.interrupt(event.interruption_event?.event_id);
+    this.toolExecutor.cancelAll('because the user interrupted');
   }
 
   /**
-   * Processes incoming audio events. It ensures the audio pipeline is running
-   * and then writes the audio chunk to it for playback.
+   * Processes incoming audio events. It decodes the chunk from the negotiated
+   * output format to 48 kHz stereo and queues it for playback.
    * @param message - The AudioEvent from the WebSocket.
    */
   private handleAudio(message: AudioEvent): void {
     try {
       const b64 = message.audio_event?.audio_base_64;
       if (!b64) return;
+      this.lastAudioAt = Date.now();
+      if (this.speechStopped) return;
 
-      const stereoBuf = base64MonoPcmToStereo(b64);
+      const encoded = Buffer.from(b64, 'base64');
+      const mono = this.outputFormat.encoding === 'ulaw' ? decodeMuLaw(encoded) : encoded;
+      const resampled = this.outputResampler.process(mono);
+      const stereoBuf = monoPcmToStereo(resampled);
       if (!stereoBuf.byteLength) return;
 
-      const { stream, isNew } = this.getOrCreatePcmStream();
-      stream.write(stereoBuf);
-
-      if (isNew) {
-        const resource = createAudioResource(stream, {
-          inputType: StreamType.Raw,
-        });
-
-        this.audioPlayer.play(resource);
+      if (this.playback.enqueue(message.audio_event.event_id, stereoBuf)) {
+        this.emit('output_audio', { pcm: resampled });
       }
     } catch (error) {
       logger.error(error, 'Error while streaming ElevenLabs audio chunk');
     }
   }
 
-  /**
-   * Provides a writable PCM stream for audio playback, replacing a destroyed stream if needed.
-   * @returns The active stream and a flag indicating whether it was newly created.
-   */
-  private getOrCreatePcmStream(): { stream: PassThrough; isNew: boolean } {
-    if (this.pcmStream && !this.pcmStream.destroyed) {
-      return { stream: this.pcmStream, isNew: false };
-    }
-
-    this.pcmStream = new PassThrough({ highWaterMark: 4096 });
-    return { stream: this.pcmStream, isNew: true };
-  }
-
   /**
    * Closes the WebSocket connection and removes all listeners.
    */
@@ -177,31 +584,19 @@ export class Agent {
       logger.debug(error, 'Error closing WebSocket');
     } finally {
       this.socket.removeAllListeners();
+      // Swallow late errors from a socket we've already abandoned.
+      this.socket.on('error', () => {});
       this.socket = null;
     }
   }
 
   /**
-   * Tears down the PCM stream to release resources and stop playback.
-   */
-  private disposePcmStream(): void {
-    if (!this.pcmStream) return;
-
-    try {
-      this.pcmStream.destroy();
-    } catch (error) {
-      logger.debug(error, 'Error destroying PCM stream');
-    } finally {
-      this.pcmStream = null;
-    }
-  }
-
-  /**
-   * Handles incoming WebSocket messages, parsing them and directing to appropriate handlers.
+   * Handles incoming WebSocket messages, parsing them, publishing them to
+   * subscribers and directing them to the appropriate internal handlers.
    * @param message - The raw WebSocket message data.
    */
-  private async handleEvent(message: WebSocket.RawData): Promise<void> {
-    let event;
+  private handleEvent(message: WebSocket.RawData): void {
+    let event: ServerEvent | undefined;
     try {
       event = JSON.parse(message.toString());
       if (!event || typeof event.type !== 'string') {
@@ -209,24 +604,34 @@ export class Agent {
         return;
       }
 
+      this.emit(event.type, event);
+
       switch (event.type) {
+        case 'conversation_initiation_metadata':
+          this.handleInitiationMetadata(event);
+          break;
         case 'agent_response':
-          this.handleAgentResponse(event as AgentResponseEvent);
+          this.handleAgentResponse(event);
           break;
         case 'user_transcript':
-          this.handleUserTranscript(event as UserTranscriptEvent);
+          this.handleUserTranscript(event);
           break;
         case 'audio':
-          this.handleAudio(event as AudioEvent);
+          this.handleAudio(event);
           break;
         case 'interruption':
-          this.handleInterruption();
+          this.handleInterruption(event);
+          break;
+        case 'ping':
+          this.handlePing(event);
           break;
         case 'client_tool_call':
-          await this.handleClientToolCall(event as ClientToolCallEvent);
+          this.handleClientToolCall(event);
           break;
         default:
-          logger.debug(`Received unhandled WebSocket event type: ${event.type}`);
+          if (!this.events.listenerCount(event.type)) {
+            logger.debug(`Received unhandled WebSocket event type: ${event.type}`);
+          }
       }
     } catch (error) {
       logger.error(error, 'Error parsing or handling WebSocket message');
@@ -240,7 +645,7 @@ export class Agent {
    * Handles `client_tool_call` events by executing the requested tool and replying with a
    * `client_tool_result` event.
    */
-  private async handleClientToolCall(event: ClientToolCallEvent): Promise<void> {
+  private handleClientToolCall(event: ClientToolCallEvent): void {
     const toolCall = event.client_tool_call;
     if (!toolCall) {
       logger.warn("Received client_tool_call event with no 'client_tool_call' details.");
@@ -256,28 +661,26 @@ export class Agent {
 
     logger.info(`Handling client tool call: ${tool} (ID: ${tool_call_id})`);
 
-    const handler = this.toolRegistry.get(tool);
-    if (!handler) {
+    const definition = this.toolRegistry.get(tool);
+    if (!definition) {
       const message = `Error: Unsupported tool '${tool}'.`;
       logger.warn(message);
       this.sendToolResponse(tool_call_id, message, true);
       return;
     }
 
-    const respond = (output: string, isError: boolean = false) => {
-      this.sendToolResponse(tool_call_id, output, isError);
-    };
-
-    try {
-      await handler({
-        parameters,
-        toolCallId: tool_call_id,
-        respond,
-      });
-    } catch (error) {
-      logger.error(error, `Tool '${tool}' (${tool_call_id}) threw an error`);
-      respond('An error occurred while executing the tool. Please try again later.', true);
+    const validation = validateToolParameters(definition, parameters);
+    if (!validation.ok) {
+      logger.warn(`Rejected call to '${tool}' (${tool_call_id}): ${validation.errors.join(' ')}`);
+      this.sendToolResponse(
+        tool_call_id,
+        JSON.stringify({ error: 'invalid_parameters', details: validation.errors }),
+        true
+      );
+      return;
     }
+
+    void this.toolExecutor.run(definition, tool_call_id, validation.parameters);
   }
 
   /**
@@ -288,20 +691,20 @@ export class Agent {
    * @param isError - A boolean indicating if the output represents an error.
    */
   private sendToolResponse(toolCallId: string, output: string, isError: boolean = false): void {
-    if (this.socket?.readyState !== WebSocket.OPEN) {
-      logger.warn('Cannot send tool response, WebSocket is not open.');
-      return;
-    }
-
-    const response = {
+    const sent = this.send({
       type: 'client_tool_result',
       tool_call_id: toolCallId,
       result: output,
       is_error: isError,
-    };
+    });
+
+    if (!sent) {
+      logger.warn('Cannot send tool response, WebSocket is not open.');
+      return;
+    }
 
-    this.socket.send(JSON.stringify(response));
     logger.info(`Sent tool response for ${toolCallId} (isError: ${isError}).`);
+    this.emit('tool_result', { tool_call_id: toolCallId, result: output, is_error: isError });
   }
 
   /**
@@ -323,7 +726,8 @@ export class Agent {
     const userTranscriptText = event.user_transcription_event?.user_transcript;
     if (userTranscriptText && typeof userTranscriptText === 'string' && userTranscriptText.trim()) {
       logger.info(`User Transcript: "${userTranscriptText}"`);
+      // The agent answers this turn next, so let it be heard again.
+      this.speechStopped = false;
     }
   }
-
 }
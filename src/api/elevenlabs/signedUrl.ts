@@ -0,0 +1,64 @@
+import { ELEVENLABS_CONFIG } from '../../config/config.js';
+
+/** How long to wait for ElevenLabs to issue a signed URL. */
+const SIGNED_URL_TIMEOUT_MS = 10_000;
+
+/**
+ * Raised when ElevenLabs rejects our credentials, either while fetching a
+ * signed URL or during the WebSocket handshake.
+ */
+export class AgentAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentAuthError';
+  }
+}
+
+function describeFetchError(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return `no answer within ${SIGNED_URL_TIMEOUT_MS / 1000} seconds`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Requests a signed conversation URL for a private agent.
+ * @param agentId - The ElevenLabs agent to start a conversation with.
+ * @param apiKey - An ElevenLabs API key with access to the agent.
+ * @returns A single-use WebSocket URL that authenticates the conversation.
+ * @throws {AgentAuthError} When the API key is rejected.
+ */
+export async function fetchSignedUrl(agentId: string, apiKey: string): Promise<string> {
+  const endpoint = new URL(ELEVENLABS_CONFIG.SIGNED_URL_ENDPOINT);
+  endpoint.searchParams.set('agent_id', agentId);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      headers: { 'xi-api-key': apiKey },
+      signal: AbortSignal.timeout(SIGNED_URL_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new Error(`Could not reach ElevenLabs to get a signed URL: ${describeFetchError(error)}`);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new AgentAuthError(
+      `ElevenLabs rejected the API key for agent ${agentId} (HTTP ${response.status}).`
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to get a signed URL from ElevenLabs (HTTP ${response.status}).`);
+  }
+
+  let body: { signed_url?: unknown };
+  try {
+    body = (await response.json()) as { signed_url?: unknown };
+  } catch (error) {
+    throw new Error(`Could not read the signed URL from ElevenLabs: ${describeFetchError(error)}`);
+  }
+  if (typeof body.signed_url !== 'string' || !body.signed_url) {
+    throw new Error('ElevenLabs signed URL response did not include a signed_url.');
+  }
+  return body.signed_url;
+}
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { logger } from '../../../config/logger.js';
+import type { ToolDefinition, ToolHandler } from '../types/tools.js';
+import { ToolExecutor } from './toolExecutor.js';
+
+interface ToolResult {
+  toolCallId: string;
+  output: string;
+  isError: boolean;
+}
+
+function createExecutor(maxConcurrent = 4) {
+  const results: ToolResult[] = [];
+  const executor = new ToolExecutor(
+    (toolCallId, output, isError) => results.push({ toolCallId, output, isError }),
+    maxConcurrent
+  );
+  return { executor, results };
+}
+
+function createTool(handler: ToolHandler, overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name: 'test_tool',
+    description: 'Used by the tests.',
+    parameters: {},
+    expectsResponse: true,
+    responseTimeoutSecs: 5,
+    ...overrides,
+    handler,
+  };
+}
+
+function untilAborted(signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => signal.addEventListener('abort', () => resolve(), { once: true }));
+}
+
+/** Resolves once the handler has started, with the signal it was given. */
+function startedHandler(): { handler: ToolHandler; started: Promise<AbortSignal> } {
+  let markStarted: (signal: AbortSignal) => void = () => {};
+  const started = new Promise<AbortSignal>(resolve => (markStarted = resolve));
+  const handler: ToolHandler = async ({ signal }) => {
+    markStarted(signal);
+    await untilAborted(signal);
+  };
+  return { handler, started };
+}
+
+describe('ToolExecutor', () => {
+  before(() => {
+    logger.level = 'silent';
+  });
+
+  it("delivers the handler's result once", async () => {
+    const { executor, results } = createExecutor();
+    const tool = createTool(async ({ respond }) => {
+      respond('done');
+      respond('again', true);
+    });
+
+    await executor.run(tool, 'call-1', {});
+
+    assert.deepEqual(results, [{ toolCallId: 'call-1', output: 'done', isError: false }]);
+    assert.equal(executor.activeCount, 0);
+  });
+
+  it('reports an error when the handler throws', async () => {
+    const { executor, results } = createExecutor();
+    const tool = createTool(async () => {
+      throw new Error('boom');
+    });
+
+    await executor.run(tool, 'call-1', {});
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].isError, true);
+  });
+
+  it('reports an error when a tool that should respond does not', async () => {
+    const { executor, results } = createExecutor();
+    await executor.run(
+      createTool(async () => {}),
+      'call-1',
+      {}
+    );
+
+    assert.deepEqual(results, [
+      { toolCallId: 'call-1', output: "Error: 'test_tool' returned no result.", isError: true },
+    ]);
+  });
+
+  it('sends nothing for tools that expect no response', async () => {
+    const { executor, results } = createExecutor();
+    await executor.run(
+      createTool(async () => {}, { expectsResponse: false }),
+      'call-1',
+      {}
+    );
+
+    assert.deepEqual(results, []);
+    assert.equal(executor.activeCount, 0);
+  });
+
+  it('aborts a call that misses its deadline and discards its late result', async () => {
+    const { executor, results } = createExecutor();
+    let signal: AbortSignal | undefined;
+    const tool = createTool(
+      async invocation => {
+        signal = invocation.signal;
+        await untilAborted(invocation.signal);
+        invocation.respond('too late');
+      },
+      { responseTimeoutSecs: 0.05 }
+    );
+
+    await executor.run(tool, 'call-1', {});
+
+    assert.equal(signal?.aborted, true);
+    assert.deepEqual(results, [
+      {
+        toolCallId: 'call-1',
+        output: "Error: 'test_tool' did not finish within 0.05 seconds.",
+        isError: true,
+      },
+    ]);
+  });
+
+  it('rejects calls beyond the concurrency limit', async () => {
+    const { executor, results } = createExecutor(1);
+    const { handler, started } = startedHandler();
+
+    const running = executor.run(createTool(handler), 'call-1', {});
+    await started;
+    await executor.run(createTool(handler), 'call-2', {});
+
+    assert.equal(executor.activeCount, 1);
+    assert.deepEqual(results, [
+      {
+        toolCallId: 'call-2',
+        output: "Error: Too many tools are already running. Try 'test_tool' again in a moment.",
+        isError: true,
+      },
+    ]);
+
+    executor.cancelAll();
+    await running;
+  });
+
+  it('cancels running calls with an explanation', async () => {
+    const { executor, results } = createExecutor();
+    const { handler, started } = startedHandler();
+
+    const running = executor.run(createTool(handler), 'call-1', {});
+    const signal = await started;
+    executor.cancelAll('because the user interrupted');
+    await running;
+
+    assert.equal(signal.aborted, true);
+    assert.equal(executor.activeCount, 0);
+    assert.deepEqual(results, [
+      {
+        toolCallId: 'call-1',
+        output: "Error: 'test_tool' was cancelled because the user interrupted.",
+        isError: true,
+      },
+    ]);
+  });
+
+  it('cancels silently when nobody is waiting for the result', async () => {
+    const { executor, results } = createExecutor();
+    const { handler, started } = startedHandler();
+
+    const running = executor.run(createTool(handler), 'call-1', {});
+    const signal = await started;
+    executor.cancelAll();
+    await running;
+
+    assert.equal(signal.aborted, true);
+    assert.equal(executor.activeCount, 0);
+    assert.deepEqual(results, []);
+  });
+});
@@ -0,0 +1,140 @@
+import { TOOL_CONFIG } from '../../../config/toolConfig.js';
+import { logger } from '../../../config/logger.js';
+import type { ToolDefinition } from '../types/tools.js';
+
+interface InFlightCall {
+  toolName: string;
+  controller: AbortController;
+  timer: NodeJS.Timeout;
+  settled: boolean;
+}
+
+/**
+ * Runs tool handlers with a deadline, an `AbortSignal` and a cap on how many
+ * may run at once. Each call produces at most one result, whether it comes
+ * from the handler, the deadline or a cancellation.
+ */
+export class ToolExecutor {
+  private readonly inFlight: Map<string, InFlightCall>;
+  private readonly sendResult: (toolCallId: string, output: string, isError: boolean) => void;
+  private readonly maxConcurrent: number;
+
+  /**
+   * @param sendResult - Delivers a `client_tool_result` to the agent.
+   * @param maxConcurrent - Calls allowed to run at once (defaults to `TOOL_CONFIG`).
+   */
+  constructor(
+    sendResult: (toolCallId: string, output: string, isError: boolean) => void,
+    maxConcurrent: number = TOOL_CONFIG.MAX_CONCURRENT_CALLS
+  ) {
+    this.inFlight = new Map();
+    this.sendResult = sendResult;
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Number of calls still running.
+   */
+  get activeCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Runs a tool call to completion, timeout or cancellation. Never throws.
+   * @param tool - The tool to run.
+   * @param toolCallId - The ID from the `client_tool_call` event.
+   * @param parameters - Parameters already validated against the tool's spec.
+   */
+  async run(
+    tool: ToolDefinition,
+    toolCallId: string,
+    parameters: Record<string, unknown>
+  ): Promise<void> {
+    if (this.inFlight.size >= this.maxConcurrent) {
+      logger.warn(`Rejected call to '${tool.name}' (${toolCallId}): too many tools running.`);
+      this.sendResult(
+        toolCallId,
+        `Error: Too many tools are already running. Try '${tool.name}' again in a moment.`,
+        true
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    const call: InFlightCall = {
+      toolName: tool.name,
+      controller,
+      timer: setTimeout(() => {
+        logger.warn(`Tool '${tool.name}' (${toolCallId}) timed out.`);
+        this.settle(
+          toolCallId,
+          call,
+          `Error: '${tool.name}' did not finish within ${tool.responseTimeoutSecs} seconds.`,
+          true
+        );
+        controller.abort(new Error('Tool call timed out.'));
+      }, tool.responseTimeoutSecs * 1000),
+      settled: false,
+    };
+    this.inFlight.set(toolCallId, call);
+
+    const respond = (output: string, isError: boolean = false) => {
+      if (call.settled) {
+        if (controller.signal.aborted) {
+          logger.debug(`Discarding late result from '${tool.name}' (${toolCallId}).`);
+        } else {
+          logger.warn(`Tool '${tool.name}' (${toolCallId}) responded more than once; ignoring.`);
+        }
+        return;
+      }
+      this.settle(toolCallId, call, output, isError);
+    };
+
+    try {
+      await tool.handler({ parameters, toolCallId, signal: controller.signal, respond });
+      if (!call.settled) {
+        if (tool.expectsResponse) {
+          logger.warn(`Tool '${tool.name}' (${toolCallId}) finished without responding.`);
+          this.settle(toolCallId, call, `Error: '${tool.name}' returned no result.`, true);
+        } else {
+          this.release(toolCallId, call);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        logger.debug(error, `Tool '${tool.name}' (${toolCallId}) stopped after being aborted`);
+        return;
+      }
+      logger.error(error, `Tool '${tool.name}' (${toolCallId}) threw an error`);
+      respond('An error occurred while executing the tool. Please try again later.', true);
+    }
+  }
+
+  /**
+   * Aborts every running call.
+   * @param reason - When given, each call reports an error result explaining why
+   * it was cancelled. Omit it when the conversation is gone and nobody is waiting.
+   */
+  cancelAll(reason?: string): void {
+    for (const [toolCallId, call] of Array.from(this.inFlight)) {
+      logger.info(`Cancelling tool '${call.toolName}' (${toolCallId}).`);
+      if (reason) {
+        this.settle(toolCallId, call, `Error: '${call.toolName}' was cancelled ${reason}.`, true);
+      } else {
+        this.release(toolCallId, call);
+      }
+      call.controller.abort(new Error('Tool call cancelled.'));
+    }
+  }
+
+  private settle(toolCallId: string, call: InFlightCall, output: string, isError: boolean): void {
+    this.release(toolCallId, call);
+    this.sendResult(toolCallId, output, isError);
+  }
+
+  private release(toolCallId: string, call: InFlightCall): void {
+    call.settled = true;
+    clearTimeout(call.timer);
+    this.inFlight.delete(toolCallId);
+  }
+}
@@ -0,0 +1,34 @@
+import { readdirSync } from 'fs';
+import path, { dirname } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { logger } from '../../../config/logger.js';
+import type { ToolModule } from '../types/tools.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+let toolModules: Promise<ToolModule[]> | null = null;
+
+/**
+ * Imports every tool module from the tools directory. Modules are loaded once
+ * and shared by all sessions.
+ * @returns The tool modules, sorted by tool name.
+ */
+export function loadToolModules(): Promise<ToolModule[]> {
+  toolModules ??= (async () => {
+    const toolsPath = path.join(__dirname, '../../../tools');
+    const modules: ToolModule[] = [];
+
+    for (const file of readdirSync(toolsPath).filter(f => f.endsWith('.js'))) {
+      const toolModuleUrl = pathToFileURL(path.join(toolsPath, file)).href;
+      const tool = await import(toolModuleUrl);
+      if (!('spec' in tool) || !('create' in tool)) {
+        logger.info(`The tool at ${file} is missing a required "spec" or "create" export.`);
+        continue;
+      }
+      modules.push(tool);
+    }
+
+    return modules.sort((a, b) => a.spec.name.localeCompare(b.spec.name));
+  })();
+  return toolModules;
+}
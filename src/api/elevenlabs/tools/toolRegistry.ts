@@ -1,16 +1,20 @@
-import type { ToolHandler } from '../types/tools.js';
+import type { ToolDefinition } from '../types/tools.js';
 
 /**
  * Maintains the collection of available client tools.
  */
 export class ToolRegistry {
-  private readonly handlers = new Map<string, ToolHandler>();
+  private readonly tools = new Map<string, ToolDefinition>();
 
-  register(name: string, handler: ToolHandler): void {
-    this.handlers.set(name, handler);
+  register(tool: ToolDefinition): void {
+    this.tools.set(tool.name, tool);
   }
 
-  get(name: string): ToolHandler | undefined {
-    return this.handlers.get(name);
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
   }
 }
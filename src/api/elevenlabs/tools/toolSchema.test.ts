@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ToolSpec } from '../types/tools.js';
+import { toElevenLabsToolJson, validateToolParameters } from './toolSchema.js';
+
+const SPEC: ToolSpec = {
+  name: 'schedule_reminder',
+  description: 'Reminds someone later.',
+  expectsResponse: true,
+  responseTimeoutSecs: 10,
+  parameters: {
+    message: { type: 'string', description: 'What to say.', required: true },
+    minutes: { type: 'integer', description: 'How long to wait.', required: true },
+    volume: { type: 'number', description: 'How loud.' },
+    urgent: { type: 'boolean', description: 'Whether to ping.' },
+    channel: { type: 'string', description: 'Where to post.', enum: ['text', 'voice'] },
+  },
+};
+
+describe('validateToolParameters', () => {
+  it('accepts valid parameters and trims strings', () => {
+    const result = validateToolParameters(SPEC, {
+      message: '  stretch  ',
+      minutes: 5,
+      volume: 0.5,
+      urgent: false,
+      channel: 'voice',
+    });
+
+    assert.deepEqual(result, {
+      ok: true,
+      parameters: { message: 'stretch', minutes: 5, volume: 0.5, urgent: false, channel: 'voice' },
+    });
+  });
+
+  it('converts numbers and booleans sent as strings', () => {
+    const result = validateToolParameters(SPEC, {
+      message: 'stretch',
+      minutes: '15',
+      volume: '1.5',
+      urgent: 'true',
+    });
+
+    assert.deepEqual(result, {
+      ok: true,
+      parameters: { message: 'stretch', minutes: 15, volume: 1.5, urgent: true },
+    });
+  });
+
+  it('drops parameters the spec does not declare', () => {
+    const result = validateToolParameters(SPEC, { message: 'stretch', minutes: 1, extra: 'x' });
+    assert.deepEqual(result, { ok: true, parameters: { message: 'stretch', minutes: 1 } });
+  });
+
+  it('reports missing required parameters, counting blank strings as missing', () => {
+    assert.deepEqual(validateToolParameters(SPEC, { message: '   ' }), {
+      ok: false,
+      errors: ["Missing required parameter 'message'.", "Missing required parameter 'minutes'."],
+    });
+    assert.deepEqual(validateToolParameters(SPEC, undefined), {
+      ok: false,
+      errors: ["Missing required parameter 'message'.", "Missing required parameter 'minutes'."],
+    });
+  });
+
+  it('reports every value of the wrong type', () => {
+    const result = validateToolParameters(SPEC, {
+      message: 42,
+      minutes: 2.5,
+      volume: 'loud',
+      urgent: 'yes',
+      channel: 'dm',
+    });
+
+    assert.deepEqual(result, {
+      ok: false,
+      errors: [
+        "'message' must be a string.",
+        "'minutes' must be a whole number.",
+        "'volume' must be a number.",
+        "'urgent' must be true or false.",
+        "'channel' must be one of: text, voice.",
+      ],
+    });
+  });
+});
+
+describe('toElevenLabsToolJson', () => {
+  it('describes a client tool with its parameters', () => {
+    const json = toElevenLabsToolJson(SPEC);
+
+    assert.equal(json.type, 'client');
+    assert.equal(json.name, 'schedule_reminder');
+    assert.equal(json.expects_response, true);
+    assert.equal(json.response_timeout_secs, 10);
+    assert.deepEqual(
+      (json.parameters as { id: string; required: boolean; enum: string[] | null }[]).map(
+        ({ id, required, enum: values }) => ({ id, required, enum: values })
+      ),
+      [
+        { id: 'message', required: true, enum: null },
+        { id: 'minutes', required: true, enum: null },
+        { id: 'volume', required: false, enum: null },
+        { id: 'urgent', required: false, enum: null },
+        { id: 'channel', required: false, enum: ['text', 'voice'] },
+      ]
+    );
+  });
+});
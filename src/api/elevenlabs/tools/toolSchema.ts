@@ -0,0 +1,103 @@
+import type { ToolParameter, ToolSpec } from '../types/tools.js';
+
+export type ToolValidationResult =
+  | { ok: true; parameters: Record<string, unknown> }
+  | { ok: false; errors: string[] };
+
+/**
+ * Checks one value against its parameter schema. Numbers and booleans sent as
+ * strings are accepted and converted, since LLMs produce them fairly often.
+ * @returns The converted value, or an error message.
+ */
+function coerceParameter(
+  name: string,
+  schema: ToolParameter,
+  value: unknown
+): { value: unknown } | { error: string } {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return { error: `'${name}' must be a string.` };
+      if (schema.enum && !schema.enum.includes(value)) {
+        return { error: `'${name}' must be one of: ${schema.enum.join(', ')}.` };
+      }
+      return { value };
+    }
+    case 'number':
+    case 'integer': {
+      const number =
+        typeof value === 'string' && value.trim() !== '' ? Number(value) : (value as number);
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: `'${name}' must be a number.` };
+      }
+      if (schema.type === 'integer' && !Number.isInteger(number)) {
+        return { error: `'${name}' must be a whole number.` };
+      }
+      return { value: number };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { error: `'${name}' must be true or false.` };
+    }
+  }
+}
+
+/**
+ * Validates `client_tool_call` parameters against a tool's spec. Unknown
+ * parameters are dropped; blank strings count as missing.
+ */
+export function validateToolParameters(
+  spec: ToolSpec,
+  parameters: Record<string, unknown> | undefined
+): ToolValidationResult {
+  const errors: string[] = [];
+  const validated: Record<string, unknown> = {};
+
+  for (const [name, schema] of Object.entries(spec.parameters)) {
+    const value = parameters?.[name];
+    const missing =
+      value === undefined || value === null || (typeof value === 'string' && !value.trim());
+    if (missing) {
+      if (schema.required) errors.push(`Missing required parameter '${name}'.`);
+      continue;
+    }
+
+    const result = coerceParameter(name, schema, value);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      validated[name] = typeof result.value === 'string' ? result.value.trim() : result.value;
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, parameters: validated };
+}
+
+/**
+ * Builds the payload pasted into ElevenLabs under Tools → Edit as JSON.
+ */
+export function toElevenLabsToolJson(spec: ToolSpec): Record<string, unknown> {
+  return {
+    type: 'client',
+    name: spec.name,
+    description: spec.description,
+    disable_interruptions: false,
+    force_pre_tool_speech: 'auto',
+    assignments: [],
+    expects_response: spec.expectsResponse,
+    response_timeout_secs: spec.responseTimeoutSecs,
+    parameters: Object.entries(spec.parameters).map(([id, schema]) => ({
+      id,
+      type: schema.type,
+      value_type: 'llm_prompt',
+      description: schema.description,
+      dynamic_variable: '',
+      constant_value: '',
+      enum: schema.enum ?? null,
+      required: schema.required ?? false,
+    })),
+    dynamic_variables: {
+      dynamic_variable_placeholders: {},
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import type { ConversationConfigOverride } from './websocket.js';
+
+/**
+ * A named ElevenLabs agent registered for a guild, e.g. a support agent or a
+ * trivia host.
+ */
+export interface AgentProfile {
+  name: string;
+  agentId: string;
+  /** Overrides sent with every conversation; per-session `/talk` options take precedence. */
+  overrides?: ConversationConfigOverride;
+  /** Tools this agent may use; undefined allows every tool enabled in the guild. */
+  allowedTools?: string[];
+}
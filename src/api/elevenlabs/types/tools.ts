@@ -1,7 +1,66 @@
+import type { Guild, GuildMember, TextChannel, VoiceBasedChannel } from 'discord.js';
+import type { GuildSettings } from '../../../storage/guildSettings.js';
+
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * Describes one parameter the agent's LLM fills in when calling a tool.
+ */
+export interface ToolParameter {
+  type: ToolParameterType;
+  description: string;
+  required?: boolean;
+  enum?: string[];
+}
+
+/**
+ * Everything ElevenLabs needs to know about a client tool, independent of any
+ * session. Used both to validate calls and to generate the agent's tool JSON.
+ */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  expectsResponse: boolean;
+  responseTimeoutSecs: number;
+}
+
 export interface ToolInvocation {
-  parameters: Record<string, unknown> | undefined;
+  /** Parameters already validated against the tool's spec. */
+  parameters: Record<string, unknown>;
   toolCallId: string;
+  /** Aborted when the call times out or is cancelled; its result is then discarded. */
+  signal: AbortSignal;
+  /** Sends the tool result. Only the first call has any effect. */
   respond: (output: string, isError?: boolean) => void;
 }
 
 export type ToolHandler = (invocation: ToolInvocation) => Promise<void>;
+
+/**
+ * A tool spec paired with the handler that runs it.
+ */
+export interface ToolDefinition extends ToolSpec {
+  handler: ToolHandler;
+}
+
+/**
+ * What a tool factory knows about the session it is created for.
+ */
+export interface ToolContext {
+  guild: Guild;
+  textChannel: TextChannel;
+  voiceChannel: VoiceBasedChannel;
+  /** The member who started the session. */
+  member: GuildMember;
+  settings: GuildSettings;
+}
+
+/**
+ * The shape of a module in the tools directory.
+ */
+export interface ToolModule {
+  spec: ToolSpec;
+  /** Builds the handler for one session, or returns null when the tool is unavailable. */
+  create: (context: ToolContext) => ToolHandler | null;
+}
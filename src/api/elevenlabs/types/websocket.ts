@@ -1,8 +1,22 @@
+export interface ConversationInitiationMetadataEvent {
+  type: 'conversation_initiation_metadata';
+  conversation_initiation_metadata_event: {
+    conversation_id: string;
+    agent_output_audio_format: string;
+    user_input_audio_format: string;
+  };
+}
+
 export interface AudioEvent {
   type: 'audio';
   audio_event: {
     audio_base_64: string;
     event_id: number;
+    alignment?: {
+      chars: string[];
+      char_start_times_ms: number[];
+      char_durations_ms: number[];
+    };
   };
 }
 
@@ -20,6 +34,43 @@ export interface AgentResponseEvent {
   };
 }
 
+export interface AgentResponseCorrectionEvent {
+  type: 'agent_response_correction';
+  agent_response_correction_event: {
+    original_agent_response: string;
+    corrected_agent_response: string;
+  };
+}
+
+export interface InternalTentativeAgentResponseEvent {
+  type: 'internal_tentative_agent_response';
+  tentative_agent_response_internal_event: {
+    tentative_agent_response: string;
+  };
+}
+
+export interface InterruptionEvent {
+  type: 'interruption';
+  interruption_event: {
+    event_id: number;
+  };
+}
+
+export interface PingEvent {
+  type: 'ping';
+  ping_event: {
+    event_id: number;
+    ping_ms?: number | null;
+  };
+}
+
+export interface VadScoreEvent {
+  type: 'vad_score';
+  vad_score_event: {
+    vad_score: number;
+  };
+}
+
 export interface ClientToolCallEvent {
   type: 'client_tool_call';
   client_tool_call?: {
@@ -28,3 +79,121 @@ export interface ClientToolCallEvent {
     parameters?: Record<string, unknown>;
   };
 }
+
+export interface AgentToolResponseEvent {
+  type: 'agent_tool_response';
+  agent_tool_response: {
+    tool_name: string;
+    tool_call_id: string;
+    tool_type: string;
+    is_error: boolean;
+  };
+}
+
+/**
+ * Every event the ElevenLabs Agent WebSocket sends to the client.
+ */
+export type ServerEvent =
+  | ConversationInitiationMetadataEvent
+  | AudioEvent
+  | UserTranscriptEvent
+  | AgentResponseEvent
+  | AgentResponseCorrectionEvent
+  | InternalTentativeAgentResponseEvent
+  | InterruptionEvent
+  | PingEvent
+  | VadScoreEvent
+  | ClientToolCallEvent
+  | AgentToolResponseEvent;
+
+export type ServerEventType = ServerEvent['type'];
+
+export type ServerEventMap = {
+  [K in ServerEventType]: Extract<ServerEvent, { type: K }>;
+};
+
+/**
+ * Connection lifecycle events `Agent` publishes alongside server events.
+ */
+export interface AgentLifecycleEventMap {
+  reconnecting: { attempt: number; maxAttempts: number; delayMs: number };
+  reconnected: { attempt: number };
+  connection_lost: { attempts: number };
+  /** The server closed the conversation on purpose, e.g. the agent hung up. */
+  conversation_ended: { code: number; reason: string };
+}
+
+/**
+ * What the agent sends out, to ElevenLabs or to Discord, that subscribers may
+ * want to observe.
+ */
+export interface AgentOutgoingEventMap {
+  tool_result: { tool_call_id: string; result: string; is_error: boolean };
+  /** Agent speech queued for playback, as 48 kHz mono 16-bit PCM. */
+  output_audio: { pcm: Buffer };
+}
+
+/**
+ * Events `Agent` publishes to subscribers: every server event keyed by its
+ * WebSocket type, plus connection lifecycle events and tool results.
+ */
+export type AgentEventMap = ServerEventMap & AgentLifecycleEventMap & AgentOutgoingEventMap;
+
+export interface UserAudioChunkMessage {
+  user_audio_chunk: string;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  event_id: number;
+}
+
+export interface ClientToolResultMessage {
+  type: 'client_tool_result';
+  tool_call_id: string;
+  result: string;
+  is_error: boolean;
+}
+
+/**
+ * Per-conversation overrides. Each field must be allowed in the agent's security settings.
+ */
+export interface ConversationConfigOverride {
+  agent?: {
+    prompt?: { prompt: string };
+    first_message?: string;
+    language?: string;
+  };
+  tts?: {
+    voice_id?: string;
+  };
+}
+
+export type DynamicVariables = Record<string, string | number | boolean>;
+
+export interface ConversationInitiationClientDataMessage {
+  type: 'conversation_initiation_client_data';
+  conversation_config_override?: ConversationConfigOverride;
+  dynamic_variables?: DynamicVariables;
+}
+
+export interface UserMessage {
+  type: 'user_message';
+  text: string;
+}
+
+export interface ContextualUpdateMessage {
+  type: 'contextual_update';
+  text: string;
+}
+
+/**
+ * Every message the client sends to the ElevenLabs Agent WebSocket.
+ */
+export type ClientMessage =
+  | UserAudioChunkMessage
+  | PongMessage
+  | ClientToolResultMessage
+  | ConversationInitiationClientDataMessage
+  | UserMessage
+  | ContextualUpdateMessage;
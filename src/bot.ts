@@ -1,4 +1,6 @@
 import {
+  AutocompleteInteraction,
+  ButtonInteraction,
   ChatInputCommandInteraction,
   Client,
   Collection,
@@ -10,13 +12,23 @@ import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { DISCORD_CONFIG } from './config/config.js';
 import { logger } from './config/logger.js';
+import { hasAccess } from './api/discord/permissions.js';
+import { commandForButton } from './session/controlPanel.js';
+import { sessionManager } from './session/sessionManager.js';
+import { guildSettings } from './storage/guildSettings.js';
+import { sessionHistory } from './storage/sessionHistory.js';
 import { deployCommands } from './utils/deployCommands.js';
+import { Embeds } from './utils/embedHelper.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+/** How often session history past each guild's retention period is deleted. */
+const HISTORY_PRUNE_INTERVAL_MS = 60 * 60_000;
+
 interface Command {
   data: { name: string };
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+  autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
 }
 
 /**
@@ -42,6 +54,39 @@ class Bot extends Client {
     }
   }
 
+  /**
+   * Answers an autocomplete request for a command option.
+   * @param {AutocompleteInteraction} interaction - The interaction requesting suggestions.
+   * @returns {Promise<void>}
+   */
+  async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      await this.commands.get(interaction.commandName)?.autocomplete?.(interaction);
+    } catch (error) {
+      logger.error(error, 'Autocomplete error');
+    }
+  }
+
+  /**
+   * Checks the invoking member against the guild's access rule for a command.
+   * @param {ChatInputCommandInteraction | ButtonInteraction} interaction - The command, or a button acting on its behalf.
+   * @param {string} commandName - The command whose rule applies.
+   * @returns {Promise<boolean>} Whether the member may run the command.
+   */
+  async canUseCommand(
+    interaction: ChatInputCommandInteraction | ButtonInteraction,
+    commandName: string
+  ): Promise<boolean> {
+    if (!interaction.guild) return true;
+
+    const settings = await guildSettings.get(interaction.guild.id);
+    const rule = settings.commandAccess[commandName];
+    if (!rule) return true;
+
+    const member = await interaction.guild.members.fetch(interaction.user.id);
+    return hasAccess(member, rule);
+  }
+
   /**
    * Handles the execution of a command based on the interaction.
    * @param {ChatInputCommandInteraction} interaction - The interaction containing the command.
@@ -49,6 +94,15 @@ class Bot extends Client {
    */
   async handleCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     try {
+      if (!(await this.canUseCommand(interaction, interaction.commandName))) {
+        await interaction.reply({
+          embeds: [
+            Embeds.error('Not Allowed', `You don't have access to /${interaction.commandName}.`),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
       await this.commands.get(interaction.commandName)?.execute(interaction);
     } catch (error) {
       logger.error(error, 'Command execution error');
@@ -60,20 +114,104 @@ class Bot extends Client {
       }
     }
   }
+
+  /**
+   * Handles a button press on one of the bot's messages. Buttons that stand in
+   * for a command are subject to that command's access rule.
+   * @param {ButtonInteraction} interaction - The interaction from the pressed button.
+   * @returns {Promise<void>}
+   */
+  async handleButton(interaction: ButtonInteraction): Promise<void> {
+    try {
+      const commandName = commandForButton(interaction.customId);
+      if (commandName && !(await this.canUseCommand(interaction, commandName))) {
+        await interaction.reply({
+          embeds: [
+            Embeds.error('Not Allowed', `You need access to /${commandName} to use this button.`),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+      await sessionManager.handleButton(interaction);
+    } catch (error) {
+      logger.error(error, 'Button handling error');
+      const response = { content: 'That action failed!', ephemeral: true };
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp(response);
+      } else {
+        await interaction.reply(response);
+      }
+    }
+  }
 }
 
-const bot = new Bot({ intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates] });
+const bot = new Bot({
+  intents: [
+    GatewayIntentBits.Guilds,
+    GatewayIntentBits.GuildVoiceStates,
+    GatewayIntentBits.GuildMessages,
+    GatewayIntentBits.MessageContent,
+    GatewayIntentBits.GuildMessageReactions,
+  ],
+});
 
 bot.on(Events.InteractionCreate, interaction => {
   if (interaction.isChatInputCommand()) {
     bot.handleCommand(interaction);
+  } else if (interaction.isAutocomplete()) {
+    bot.handleAutocomplete(interaction);
+  } else if (interaction.isButton()) {
+    bot.handleButton(interaction);
   }
 });
 
+bot.on(Events.VoiceStateUpdate, (oldState, newState) => {
+  sessionManager.handleVoiceStateUpdate(oldState, newState);
+});
+
+bot.on(Events.MessageCreate, message => {
+  sessionManager.handleMessage(message);
+});
+
+bot.on(Events.MessageReactionAdd, (reaction, user) => {
+  sessionManager.handleReaction(reaction, user);
+});
+
+/**
+ * Deletes session history older than each guild's current retention period,
+ * including every session of guilds that turned history off.
+ */
+async function pruneSessionHistory(): Promise<void> {
+  try {
+    const pruned = await sessionHistory.pruneAll(
+      async guildId => (await guildSettings.get(guildId)).historyRetentionDays
+    );
+    if (pruned) logger.info(`Pruned ${pruned} expired session(s) from history.`);
+  } catch (error) {
+    logger.error(error, 'Failed to prune session history');
+  }
+}
+
 bot.once(Events.ClientReady, async () => {
   await deployCommands();
   await bot.loadCommands();
+  await pruneSessionHistory();
+  setInterval(pruneSessionHistory, HISTORY_PRUNE_INTERVAL_MS).unref();
   logger.info(`Ready! Logged in as ${bot.user?.username}`);
 });
 
+/**
+ * Leaves every voice channel and closes agent conversations before exiting.
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  logger.info(`Received ${signal}. Shutting down.`);
+  sessionManager.endAll();
+  await bot.destroy();
+  process.exit(0);
+}
+
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
+
 bot.login(DISCORD_CONFIG.BOT_TOKEN);
@@ -0,0 +1,269 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { loadToolModules } from '../api/elevenlabs/tools/toolLoader.js';
+import type { AgentProfile } from '../api/elevenlabs/types/profiles.js';
+import type { ConversationConfigOverride } from '../api/elevenlabs/types/websocket.js';
+import { logger } from '../config/logger.js';
+import { findAgentProfile, guildSettings } from '../storage/guildSettings.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+/** Profile names are typed in /talk, so keep them short and simple. */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Represents the structure of the agents command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('agents')
+  .setDescription('Manages the agent profiles members can pick with /talk.')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false)
+  .addSubcommand(subcommand =>
+    subcommand.setName('list').setDescription('Lists the agent profiles in this server.')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('add')
+      .setDescription('Adds an agent profile, or replaces one with the same name.')
+      .addStringOption(option =>
+        option
+          .setName('name')
+          .setDescription('Short name used with /talk, e.g. trivia.')
+          .setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('agent_id').setDescription('ElevenLabs agent ID.').setRequired(true)
+      )
+      .addStringOption(option =>
+        option.setName('prompt').setDescription("Default override for the agent's system prompt.")
+      )
+      .addStringOption(option =>
+        option.setName('first_message').setDescription('Default override for what it says first.')
+      )
+      .addStringOption(option =>
+        option.setName('language').setDescription('Default conversation language code, e.g. es.')
+      )
+      .addStringOption(option =>
+        option.setName('voice_id').setDescription('Default ElevenLabs voice ID.')
+      )
+      .addStringOption(option =>
+        option
+          .setName('tools')
+          .setDescription('Comma-separated tools this agent may use (defaults to all).')
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('remove')
+      .setDescription('Removes an agent profile.')
+      .addStringOption(option =>
+        option
+          .setName('name')
+          .setDescription('Profile to remove.')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  );
+
+/**
+ * Describes a profile on one line for listing.
+ */
+function describeProfile(profile: AgentProfile): string {
+  const details = [`agent \`${profile.agentId}\``];
+  if (profile.overrides?.agent?.prompt) details.push('custom prompt');
+  if (profile.overrides?.agent?.first_message) details.push('custom first message');
+  if (profile.overrides?.agent?.language)
+    details.push(`language ${profile.overrides.agent.language}`);
+  if (profile.overrides?.tts?.voice_id) details.push(`voice \`${profile.overrides.tts.voice_id}\``);
+  details.push(
+    profile.allowedTools ? `tools: ${profile.allowedTools.join(', ') || 'none'}` : 'all tools'
+  );
+  return `**${profile.name}**: ${details.join(' · ')}`;
+}
+
+/**
+ * Suggests existing profile names for `/agents remove`.
+ *
+ * @param {AutocompleteInteraction} interaction - The autocomplete interaction.
+ * @returns {Promise<void>}
+ */
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = interaction.options.getFocused().toLowerCase();
+  const { agentProfiles } = await guildSettings.get(interaction.guildId);
+  await interaction.respond(
+    Object.keys(agentProfiles)
+      .filter(name => name.includes(query))
+      .sort()
+      .slice(0, 25)
+      .map(name => ({ name, value: name }))
+  );
+}
+
+/**
+ * Executes the agents command. Only members who can manage the server may use it.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const guildId = interaction.guildId;
+    if (!guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Allowed', 'You need the Manage Server permission to do this.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const settings = await guildSettings.get(guildId);
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const profiles = Object.values(settings.agentProfiles).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      );
+      await interaction.reply({
+        embeds: [
+          Embeds.info(
+            'Agent Profiles',
+            profiles.length
+              ? profiles.map(describeProfile).join('\n')
+              : 'No profiles yet. Add one with /agents add.'
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const name = interaction.options.getString('name', true).trim().toLowerCase();
+
+    if (subcommand === 'remove') {
+      let removed = false;
+      await guildSettings.update(guildId, current => {
+        removed = findAgentProfile(current, name) !== undefined;
+        if (!removed) return {};
+        const agentProfiles = { ...current.agentProfiles };
+        delete agentProfiles[name];
+        return { agentProfiles };
+      });
+      if (!removed) {
+        await interaction.reply({
+          embeds: [Embeds.error('Not Found', `There is no agent profile called \`${name}\`.`)],
+          ephemeral: true,
+        });
+        return;
+      }
+      await interaction.reply({
+        embeds: [Embeds.success('Profile Removed', `Removed the \`${name}\` agent profile.`)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      await interaction.reply({
+        embeds: [
+          Embeds.error(
+            'Invalid Name',
+            'Use up to 32 lowercase letters, digits, dashes or underscores.'
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const agentId = interaction.options.getString('agent_id', true).trim();
+    if (!/^[\w-]{8,64}$/.test(agentId)) {
+      await interaction.reply({
+        embeds: [
+          Embeds.error('Invalid Agent ID', "That doesn't look like an ElevenLabs agent ID."),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const toolsOption = interaction.options.getString('tools');
+    let allowedTools: string[] | undefined;
+    if (toolsOption !== null) {
+      const known = (await loadToolModules()).map(tool => tool.spec.name);
+      allowedTools = toolsOption
+        .split(',')
+        .map(tool => tool.trim())
+        .filter(Boolean);
+      const unknown = allowedTools.filter(tool => !known.includes(tool));
+      if (unknown.length) {
+        await interaction.reply({
+          embeds: [
+            Embeds.error(
+              'Unknown Tools',
+              `Unknown: ${unknown.join(', ')}. Available: ${known.join(', ')}.`
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+
+    const prompt = interaction.options.getString('prompt');
+    const firstMessage = interaction.options.getString('first_message');
+    const language = interaction.options.getString('language');
+    const voiceId = interaction.options.getString('voice_id');
+    const overrides: ConversationConfigOverride = {};
+    if (prompt || firstMessage || language) {
+      overrides.agent = {
+        ...(prompt && { prompt: { prompt } }),
+        ...(firstMessage && { first_message: firstMessage }),
+        ...(language && { language }),
+      };
+    }
+    if (voiceId) {
+      overrides.tts = { voice_id: voiceId };
+    }
+
+    const profile: AgentProfile = {
+      name,
+      agentId,
+      ...(Object.keys(overrides).length ? { overrides } : {}),
+      ...(allowedTools && { allowedTools }),
+    };
+    await guildSettings.update(guildId, current => ({
+      agentProfiles: { ...current.agentProfiles, [name]: profile },
+    }));
+
+    await interaction.reply({
+      embeds: [
+        Embeds.success(
+          'Profile Saved',
+          `${describeProfile(profile)}\n\nStart it with \`/talk agent:${name}\`.`
+        ),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in agents command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while updating agent profiles.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
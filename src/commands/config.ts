@@ -0,0 +1,308 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { SPEAKER_MODE_CHOICES } from '../api/discord/speakerFilter.js';
+import { logger } from '../config/logger.js';
+import {
+  DEFAULT_GUILD_SETTINGS,
+  type GuildSettings,
+  guildSettings,
+} from '../storage/guildSettings.js';
+import { sessionHistory } from '../storage/sessionHistory.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+type ParseResult = { value: unknown } | { error: string };
+
+interface ConfigOption {
+  /** Field in `GuildSettings` the option controls. */
+  field: keyof GuildSettings;
+  description: string;
+  parse: (value: string, interaction: ChatInputCommandInteraction<'cached'>) => ParseResult;
+  format?: (value: unknown) => string;
+}
+
+/**
+ * Applies a changed history retention period to the sessions already stored,
+ * so shortening it or turning history off takes effect straight away.
+ * @returns A note for the reply, empty when retention was not among the keys.
+ */
+async function applyHistoryRetention(
+  settings: GuildSettings,
+  guildId: string,
+  keys: string[]
+): Promise<string> {
+  if (!keys.includes('history_retention_days')) return '';
+
+  const pruned = await sessionHistory.prune(guildId, settings.historyRetentionDays);
+  return pruned ? `\n\nDeleted ${pruned} stored session(s) outside the retention period.` : '';
+}
+
+/**
+ * Parses a whole number within bounds.
+ */
+function parseInteger(min: number, max: number): ConfigOption['parse'] {
+  return value => {
+    const number = Number(value);
+    return Number.isInteger(number) && number >= min && number <= max
+      ? { value: number }
+      : { error: `Enter a whole number from ${min} to ${max}.` };
+  };
+}
+
+/**
+ * Parses an on/off switch.
+ */
+const parseBoolean: ConfigOption['parse'] = value => {
+  const normalised = value.toLowerCase();
+  if (['true', 'yes', 'on'].includes(normalised)) return { value: true };
+  if (['false', 'no', 'off'].includes(normalised)) return { value: false };
+  return { error: 'Enter `true` or `false`.' };
+};
+
+/**
+ * Parses one of a fixed set of values.
+ */
+function parseChoice(choices: readonly string[]): ConfigOption['parse'] {
+  return value =>
+    choices.includes(value)
+      ? { value }
+      : { error: `Enter one of: ${choices.map(choice => `\`${choice}\``).join(', ')}.` };
+}
+
+/**
+ * Settings exposed through /config, keyed by the name admins type.
+ */
+const CONFIG_OPTIONS: Record<string, ConfigOption> = {
+  agent_id: {
+    field: 'agentId',
+    description: 'ElevenLabs agent ID to talk to.',
+    parse: value =>
+      /^[\w-]{8,64}$/.test(value) ? { value } : { error: "That doesn't look like an agent ID." },
+    format: value => (value ? `\`${value}\`` : 'Default from `AGENT_ID`'),
+  },
+  default_mode: {
+    field: 'defaultSpeakerMode',
+    description: 'Listening mode for /talk when none is given.',
+    parse: parseChoice(
+      SPEAKER_MODE_CHOICES.filter(choice => choice.value !== 'allowlist').map(
+        choice => choice.value
+      )
+    ),
+  },
+  transcript_default: {
+    field: 'transcriptByDefault',
+    description: 'Whether /talk opens a transcript thread when the option is omitted.',
+    parse: parseBoolean,
+  },
+  transcript_channel: {
+    field: 'transcriptChannelId',
+    description: 'Text channel where transcript threads are opened.',
+    parse: (value, interaction) => {
+      const channelId = value.replace(/^<#(\d+)>$/, '$1');
+      const channel = interaction.guild.channels.cache.get(channelId);
+      return channel?.type === ChannelType.GuildText
+        ? { value: channel.id }
+        : { error: 'Mention a text channel in this server, e.g. #transcripts.' };
+    },
+    format: value => (value ? `<#${value}>` : 'The channel /talk is used in'),
+  },
+  idle_timeout_minutes: {
+    field: 'idleTimeoutMinutes',
+    description: 'Leave after this many minutes without speech (0 disables).',
+    parse: parseInteger(0, 1440),
+  },
+  empty_channel_timeout_seconds: {
+    field: 'emptyChannelTimeoutSeconds',
+    description: 'Leave this many seconds after the last person leaves.',
+    parse: parseInteger(0, 3600),
+  },
+  search_max_results: {
+    field: 'searchMaxResults',
+    description: 'Results the web search tool fetches.',
+    parse: parseInteger(1, 10),
+  },
+  search_depth: {
+    field: 'searchDepth',
+    description: 'How thoroughly the web search tool searches.',
+    parse: parseChoice(['basic', 'advanced']),
+  },
+  history_retention_days: {
+    field: 'historyRetentionDays',
+    description: 'Days to keep session history for /history (0 disables it).',
+    parse: parseInteger(0, 3650),
+  },
+  recording: {
+    field: 'recordingEnabled',
+    description: 'Whether sessions are recorded to audio alongside their history.',
+    parse: parseBoolean,
+  },
+};
+
+const KEY_CHOICES = Object.entries(CONFIG_OPTIONS).map(([key, option]) => ({
+  name: `${key}: ${option.description}`.slice(0, 100),
+  value: key,
+}));
+
+/**
+ * Represents the structure of the config command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('config')
+  .setDescription("Shows or changes this server's voice session settings.")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false)
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('get')
+      .setDescription('Shows the current settings.')
+      .addStringOption(option =>
+        option
+          .setName('key')
+          .setDescription('Setting to show (defaults to all).')
+          .addChoices(...KEY_CHOICES)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('set')
+      .setDescription('Changes a setting.')
+      .addStringOption(option =>
+        option
+          .setName('key')
+          .setDescription('Setting to change.')
+          .setRequired(true)
+          .addChoices(...KEY_CHOICES)
+      )
+      .addStringOption(option =>
+        option.setName('value').setDescription('New value.').setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('reset')
+      .setDescription('Restores a setting to its default.')
+      .addStringOption(option =>
+        option
+          .setName('key')
+          .setDescription('Setting to reset (defaults to all).')
+          .addChoices(...KEY_CHOICES)
+      )
+  );
+
+/**
+ * Renders settings as `key: value` lines.
+ */
+function describeSettings(settings: GuildSettings, keys: string[]): string {
+  return keys
+    .map(key => {
+      const option = CONFIG_OPTIONS[key];
+      const value = settings[option.field];
+      const isDefault = value === DEFAULT_GUILD_SETTINGS[option.field];
+      const formatted = option.format ? option.format(value) : `\`${String(value)}\``;
+      return `**${key}**: ${formatted}${isDefault ? ' _(default)_' : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Executes the config command. Only members who can manage the server may use
+ * it. Changes apply from the next session.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    if (
+      !interaction.inCachedGuild() ||
+      !interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+    ) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Allowed', 'You need the Manage Server permission to do this.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const key = interaction.options.getString('key');
+    const keys = key ? [key] : Object.keys(CONFIG_OPTIONS);
+
+    if (subcommand === 'get') {
+      const settings = await guildSettings.get(interaction.guildId);
+      await interaction.reply({
+        embeds: [
+          Embeds.info(
+            'Server Settings',
+            `${describeSettings(settings, keys)}\n\nUse /tools to choose which tools the agent may use.`
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (subcommand === 'reset') {
+      const settings = await guildSettings.reset(
+        interaction.guildId,
+        keys.map(name => CONFIG_OPTIONS[name].field)
+      );
+      const pruneNote = await applyHistoryRetention(settings, interaction.guildId, keys);
+      await interaction.reply({
+        embeds: [
+          Embeds.success('Settings Reset', `${describeSettings(settings, keys)}${pruneNote}`),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const setKey = interaction.options.getString('key', true);
+    const option = CONFIG_OPTIONS[setKey];
+    if (!option) {
+      await interaction.reply({
+        embeds: [Embeds.error('Unknown Setting', 'Pick a setting from the list.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const result = option.parse(interaction.options.getString('value', true).trim(), interaction);
+    if ('error' in result) {
+      await interaction.reply({
+        embeds: [Embeds.error('Invalid Value', result.error)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const settings = await guildSettings.update(interaction.guildId, {
+      [option.field]: result.value,
+    });
+    const pruneNote = await applyHistoryRetention(settings, interaction.guildId, [setKey]);
+    await interaction.reply({
+      embeds: [
+        Embeds.success(
+          'Setting Updated',
+          `${describeSettings(settings, [setKey])}\n\nThis applies from the next /talk session.${pruneNote}`
+        ),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in config command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while updating server settings.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
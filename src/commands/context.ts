@@ -0,0 +1,63 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { logger } from '../config/logger.js';
+import { sessionManager } from '../session/sessionManager.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+/**
+ * Represents the structure of the context command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('context')
+  .setDescription('Gives the agent background information without interrupting the conversation.')
+  .addStringOption(option =>
+    option
+      .setName('text')
+      .setDescription('What the agent should know.')
+      .setRequired(true)
+      .setMaxLength(1000)
+  );
+
+/**
+ * Executes the context command.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const session = interaction.guildId ? sessionManager.get(interaction.guildId) : undefined;
+    if (!session) {
+      await interaction.reply({
+        embeds: [Embeds.info('No Active Session', 'Start a session with /talk first.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const text = interaction.options.getString('text', true);
+    if (!session.agent.sendContextualUpdate(text)) {
+      await interaction.reply({
+        embeds: [Embeds.error('Agent Unavailable', 'The agent is not connected right now.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      embeds: [Embeds.success('Context Sent', text)],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in context command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while sending context to the agent.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  AttachmentBuilder,
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { logger } from '../config/logger.js';
+import { guildSettings } from '../storage/guildSettings.js';
+import { sessionHistory } from '../storage/sessionHistory.js';
+import { Embeds } from '../utils/embedHelper.js';
+import {
+  exportSessionRecord,
+  HISTORY_EXPORT_FORMATS,
+  type HistoryExportFormat,
+} from '../utils/historyExport.js';
+import { formatDuration } from '../utils/time.js';
+
+/** Sessions shown by `/history list`. */
+const LIST_LIMIT = 10;
+
+/**
+ * Represents the structure of the history command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('history')
+  .setDescription('Browses and exports transcripts of past voice sessions.')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false)
+  .addSubcommand(subcommand =>
+    subcommand.setName('list').setDescription('Lists recent sessions in this server.')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('export')
+      .setDescription('Downloads a session transcript.')
+      .addStringOption(option =>
+        option.setName('id').setDescription('Session ID from /history list.').setRequired(true)
+      )
+      .addStringOption(option =>
+        option
+          .setName('format')
+          .setDescription('File format (defaults to Markdown).')
+          .addChoices(...HISTORY_EXPORT_FORMATS)
+      )
+  );
+
+/**
+ * Executes the history command. Transcripts contain everyone's speech, so only
+ * members who can manage the server may use it.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const guildId = interaction.guildId;
+    if (!guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Allowed', 'You need the Manage Server permission to do this.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (interaction.options.getSubcommand() === 'list') {
+      const sessions = await sessionHistory.list(guildId, LIST_LIMIT);
+      const { historyRetentionDays } = await guildSettings.get(guildId);
+      const footer = historyRetentionDays
+        ? `Sessions are kept for ${historyRetentionDays} days.`
+        : 'Session history is turned off. Enable it with /config set history_retention_days.';
+      const lines = sessions.map(session => {
+        const startedAt = Math.floor(Date.parse(session.startedAt) / 1000);
+        const duration = formatDuration(
+          Date.parse(session.endedAt) - Date.parse(session.startedAt)
+        );
+        const profile = session.agentProfile ? ` · ${session.agentProfile}` : '';
+        const recording = session.recording ? ' · 🎙️' : '';
+        return `\`${session.id}\` <t:${startedAt}:f> · #${session.voiceChannelName} · ${duration} · ${session.entryCount} lines${profile}${recording}`;
+      });
+
+      await interaction.reply({
+        embeds: [
+          Embeds.info(
+            'Session History',
+            `${lines.join('\n') || 'No sessions recorded yet.'}\n\n${footer}`
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const id = interaction.options.getString('id', true).trim();
+    const format = (interaction.options.getString('format') ?? 'markdown') as HistoryExportFormat;
+    const record = await sessionHistory.load(guildId, id);
+    if (!record) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Found', `No session with ID \`${id}\`. See /history list.`)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const { content, fileName } = exportSessionRecord(record, format);
+    await interaction.reply({
+      files: [new AttachmentBuilder(Buffer.from(content, 'utf8'), { name: fileName })],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in history command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while reading session history.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
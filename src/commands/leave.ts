@@ -1,6 +1,6 @@
 import { CommandInteraction, SlashCommandBuilder } from 'discord.js';
-import { getVoiceConnection } from '@discordjs/voice';
 import { logger } from '../config/logger.js';
+import { sessionManager } from '../session/sessionManager.js';
 import { Embeds } from '../utils/embedHelper.js';
 
 /**
@@ -19,9 +19,7 @@ export const data = new SlashCommandBuilder()
 export async function execute(interaction: CommandInteraction): Promise<void> {
   try {
     await interaction.deferReply();
-    const connection = getVoiceConnection(interaction.guildId!);
-    const success = !!connection;
-    if (connection) connection.destroy();
+    const success = sessionManager.end(interaction.guildId!);
 
     if (success) {
       await interaction.editReply({
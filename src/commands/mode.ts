@@ -0,0 +1,82 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SPEAKER_MODE_CHOICES, type SpeakerMode } from '../api/discord/speakerFilter.js';
+import { logger } from '../config/logger.js';
+import { sessionManager } from '../session/sessionManager.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+/**
+ * Represents the structure of the mode command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('mode')
+  .setDescription('Changes who Voicebot listens to during the current session.')
+  .addStringOption(option =>
+    option
+      .setName('mode')
+      .setDescription('Who the agent listens to.')
+      .setRequired(true)
+      .addChoices(...SPEAKER_MODE_CHOICES)
+  )
+  .addRoleOption(option =>
+    option.setName('allow_role').setDescription('Role to add to the allowlist.')
+  )
+  .addUserOption(option =>
+    option.setName('allow_user').setDescription('User to add to the allowlist.')
+  );
+
+/**
+ * Executes the mode command. Only the member who started the session, or
+ * members who can manage the server, may change the mode.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const session = interaction.guildId ? sessionManager.get(interaction.guildId) : undefined;
+    if (!session) {
+      await interaction.reply({
+        embeds: [Embeds.info('No Active Session', 'Start a session with /talk first.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const filter = session.speakerFilter;
+    const canManage = interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild);
+    if (interaction.user.id !== filter.owner && !canManage) {
+      await interaction.reply({
+        embeds: [
+          Embeds.error('Not Allowed', 'Only the member who started the session can change this.'),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const mode = interaction.options.getString('mode', true) as SpeakerMode;
+    const allowRole = interaction.options.getRole('allow_role');
+    const allowUser = interaction.options.getUser('allow_user');
+    filter.setMode(mode, {
+      roleIds: allowRole ? [allowRole.id] : [],
+      userIds: allowUser ? [allowUser.id] : [],
+    });
+    session.controlPanel.refresh();
+
+    await interaction.reply({
+      embeds: [Embeds.success('Listening Mode Updated', filter.describe())],
+    });
+  } catch (error) {
+    logger.error(error, 'Error in mode command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while changing the listening mode.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
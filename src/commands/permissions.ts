@@ -0,0 +1,226 @@
+import {
+  ChatInputCommandInteraction,
+  PermissionFlagsBits,
+  type PermissionsString,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { describeAccessRule, formatPermission } from '../api/discord/permissions.js';
+import { loadToolModules } from '../api/elevenlabs/tools/toolLoader.js';
+import { logger } from '../config/logger.js';
+import { type AccessRule, guildSettings } from '../storage/guildSettings.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+type AccessKind = 'command' | 'tool';
+
+/** Permissions offered as access criteria; members with any of them qualify. */
+const PERMISSION_CHOICES: PermissionsString[] = [
+  'Administrator',
+  'ManageChannels',
+  'ManageMessages',
+  'ManageRoles',
+  'ModerateMembers',
+  'MoveMembers',
+  'MuteMembers',
+];
+
+const KIND_CHOICES = [
+  { name: 'Slash command', value: 'command' },
+  { name: 'Agent tool', value: 'tool' },
+];
+
+/**
+ * Represents the structure of the permissions command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('permissions')
+  .setDescription('Controls who may use each command and agent tool in this server.')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false)
+  .addSubcommand(subcommand =>
+    subcommand.setName('list').setDescription('Shows every access rule in this server.')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('allow')
+      .setDescription(
+        'Restricts a command or tool to a role or permission, adding to any existing rule.'
+      )
+      .addStringOption(option =>
+        option
+          .setName('kind')
+          .setDescription('Whether this is a slash command or an agent tool.')
+          .setRequired(true)
+          .addChoices(...KIND_CHOICES)
+      )
+      .addStringOption(option =>
+        option
+          .setName('name')
+          .setDescription('Command name without the slash, or tool name.')
+          .setRequired(true)
+      )
+      .addRoleOption(option => option.setName('role').setDescription('Role that may use it.'))
+      .addStringOption(option =>
+        option
+          .setName('permission')
+          .setDescription('Members with this permission may use it.')
+          .addChoices(
+            ...PERMISSION_CHOICES.map(value => ({ name: formatPermission(value), value }))
+          )
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('reset')
+      .setDescription('Removes the rule for a command or tool so everyone may use it.')
+      .addStringOption(option =>
+        option
+          .setName('kind')
+          .setDescription('Whether this is a slash command or an agent tool.')
+          .setRequired(true)
+          .addChoices(...KIND_CHOICES)
+      )
+      .addStringOption(option =>
+        option
+          .setName('name')
+          .setDescription('Command name without the slash, or tool name.')
+          .setRequired(true)
+      )
+  );
+
+/**
+ * Lists the names that can carry an access rule of the given kind.
+ */
+async function knownNames(
+  interaction: ChatInputCommandInteraction,
+  kind: AccessKind
+): Promise<string[]> {
+  if (kind === 'tool') {
+    return (await loadToolModules()).map(tool => tool.spec.name);
+  }
+  const commands = await interaction.client.application.commands.fetch();
+  return commands.map(command => command.name);
+}
+
+/**
+ * Executes the permissions command. Only members who can manage the server may
+ * use it; they also always pass every rule, so they can't lock themselves out.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const guildId = interaction.guildId;
+    if (!guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Allowed', 'You need the Manage Server permission to do this.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const settings = await guildSettings.get(guildId);
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const lines = [
+        ...Object.entries(settings.commandAccess).map(
+          ([name, rule]) => `\`/${name}\`: ${describeAccessRule(rule)}`
+        ),
+        ...Object.entries(settings.toolAccess).map(
+          ([name, rule]) => `\`${name}\` (tool): ${describeAccessRule(rule)}`
+        ),
+      ];
+      await interaction.reply({
+        embeds: [
+          Embeds.info(
+            'Access Rules',
+            lines.length
+              ? `${lines.join('\n')}\n\nEverything else is open to everyone. Members who can manage the server may always use everything.`
+              : 'No rules set. Everyone may use every command and tool.'
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const kind = interaction.options.getString('kind', true) as AccessKind;
+    const name = interaction.options.getString('name', true).trim().replace(/^\//, '');
+    const names = await knownNames(interaction, kind);
+    if (!names.includes(name)) {
+      await interaction.reply({
+        embeds: [
+          Embeds.error(
+            'Not Found',
+            `No ${kind} named \`${name}\`. Available: ${names.map(n => `\`${n}\``).join(', ')}.`
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const key = kind === 'command' ? 'commandAccess' : 'toolAccess';
+    const label = kind === 'command' ? `/${name}` : `the ${name} tool`;
+
+    if (subcommand === 'reset') {
+      await guildSettings.update(guildId, current => {
+        const rules = { ...current[key] };
+        delete rules[name];
+        return { [key]: rules };
+      });
+      await interaction.reply({
+        embeds: [Embeds.success('Access Reset', `Everyone may now use ${label}.`)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const role = interaction.options.getRole('role');
+    const permission = interaction.options.getString('permission') as PermissionsString | null;
+    if (!role && !permission) {
+      await interaction.reply({
+        embeds: [Embeds.error('Missing Option', 'Choose a role, a permission, or both.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const updated = await guildSettings.update(guildId, current => {
+      const rules = { ...current[key] };
+      const rule: AccessRule = rules[name] ?? { roleIds: [], permissions: [] };
+      rules[name] = {
+        roleIds:
+          role && !rule.roleIds.includes(role.id) ? [...rule.roleIds, role.id] : rule.roleIds,
+        permissions:
+          permission && !rule.permissions.includes(permission)
+            ? [...rule.permissions, permission]
+            : rule.permissions,
+      };
+      return { [key]: rules };
+    });
+
+    await interaction.reply({
+      embeds: [
+        Embeds.success(
+          'Access Updated',
+          `${label} is now limited to: ${describeAccessRule(updated[key][name])}.`
+        ),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in permissions command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while updating permissions.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { logger } from '../config/logger.js';
+import { buildStatusEmbed } from '../session/controlPanel.js';
+import { sessionManager } from '../session/sessionManager.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+/**
+ * Represents the structure of the status command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('status')
+  .setDescription('Shows the state of the current voice session.');
+
+/**
+ * Executes the status command.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const session = interaction.guildId ? sessionManager.get(interaction.guildId) : undefined;
+    if (!session) {
+      await interaction.reply({
+        embeds: [Embeds.info('No Active Session', 'Start a session with /talk.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const embed = buildStatusEmbed('Voice Session Status', session.getStatus());
+
+    await interaction.reply({ embeds: [embed], allowedMentions: { parse: [] } });
+  } catch (error) {
+    logger.error(error, 'Error in status command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while fetching the session status.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
@@ -1,16 +1,117 @@
-import { AudioPlayer, joinVoiceChannel, getVoiceConnection } from '@discordjs/voice';
-import { ChannelType, ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
-import { SpeechHandler } from '../api/discord/speech.js';
-import { Agent } from '../api/elevenlabs/agent.js';
-import { ToolRegistry } from '../api/elevenlabs/tools/toolRegistry.js';
-import { createTavilyTool } from '../api/elevenlabs/tools/tavilyTool.js';
+import { getVoiceConnection } from '@discordjs/voice';
+import {
+  AutocompleteInteraction,
+  ChannelType,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  VoiceBasedChannel,
+} from 'discord.js';
+import { SPEAKER_MODE_CHOICES, type SpeakerMode } from '../api/discord/speakerFilter.js';
+import type { AgentOptions } from '../api/elevenlabs/agent.js';
+import { AgentAuthError } from '../api/elevenlabs/signedUrl.js';
+import type { ConversationConfigOverride } from '../api/elevenlabs/types/websocket.js';
 import { logger } from '../config/logger.js';
-import { TAVILY_CONFIG } from '../config/config.js';
+import { sessionManager } from '../session/sessionManager.js';
+import { findAgentProfile, guildSettings } from '../storage/guildSettings.js';
 import { Embeds } from '../utils/embedHelper.js';
 
 export const data = new SlashCommandBuilder()
   .setName('talk')
-  .setDescription('Unleash an auditory adventure with a voice that echoes from the digital realm.');
+  .setDescription('Unleash an auditory adventure with a voice that echoes from the digital realm.')
+  .addStringOption(option =>
+    option
+      .setName('agent')
+      .setDescription('Agent profile to talk to (see /agents).')
+      .setAutocomplete(true)
+  )
+  .addStringOption(option =>
+    option
+      .setName('mode')
+      .setDescription("Who the agent listens to (defaults to the server's configured mode).")
+      .addChoices(...SPEAKER_MODE_CHOICES)
+  )
+  .addRoleOption(option =>
+    option.setName('allow_role').setDescription('Role to listen to in allowlist mode.')
+  )
+  .addUserOption(option =>
+    option.setName('allow_user').setDescription('User to listen to in allowlist mode.')
+  )
+  .addBooleanOption(option =>
+    option
+      .setName('transcript')
+      .setDescription('Post a live transcript of the conversation to a thread.')
+  )
+  .addStringOption(option =>
+    option.setName('prompt').setDescription("Override the agent's system prompt for this session.")
+  )
+  .addStringOption(option =>
+    option.setName('first_message').setDescription('Override what the agent says first.')
+  )
+  .addStringOption(option =>
+    option.setName('language').setDescription('Conversation language code, e.g. en, es, fr.')
+  )
+  .addStringOption(option =>
+    option.setName('voice_id').setDescription('ElevenLabs voice ID to speak with.')
+  );
+
+/**
+ * Builds the conversation initiation data from the command options. Dynamic
+ * variables describing the caller and channel are always included so agent
+ * prompts can reference `{{user_name}}`, `{{guild_name}}` and `{{voice_channel_name}}`.
+ */
+function buildAgentOptions(
+  interaction: ChatInputCommandInteraction<'cached'>,
+  voiceChannel: VoiceBasedChannel
+): AgentOptions {
+  const prompt = interaction.options.getString('prompt');
+  const firstMessage = interaction.options.getString('first_message');
+  const language = interaction.options.getString('language');
+  const voiceId = interaction.options.getString('voice_id');
+
+  const overrides: ConversationConfigOverride = {};
+  if (prompt || firstMessage || language) {
+    overrides.agent = {
+      ...(prompt && { prompt: { prompt } }),
+      ...(firstMessage && { first_message: firstMessage }),
+      ...(language && { language }),
+    };
+  }
+  if (voiceId) {
+    overrides.tts = { voice_id: voiceId };
+  }
+
+  return {
+    overrides: Object.keys(overrides).length ? overrides : undefined,
+    dynamicVariables: {
+      user_name: interaction.member.displayName,
+      guild_name: interaction.guild.name,
+      voice_channel_name: voiceChannel.name,
+    },
+  };
+}
+
+/**
+ * Suggests the guild's agent profiles for the `agent` option.
+ *
+ * @param {AutocompleteInteraction} interaction - The autocomplete interaction.
+ * @returns {Promise<void>}
+ */
+export async function autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = interaction.options.getFocused().toLowerCase();
+  const { agentProfiles } = await guildSettings.get(interaction.guildId);
+  await interaction.respond(
+    Object.keys(agentProfiles)
+      .filter(name => name.includes(query))
+      .sort()
+      .slice(0, 25)
+      .map(name => ({ name, value: name }))
+  );
+}
 
 /**
  * Executes the talk command.
@@ -49,72 +150,68 @@ export async function execute(interaction: ChatInputCommandInteraction): Promise
       return;
     }
 
-    if (getVoiceConnection(interaction.guildId!)) {
+    if (sessionManager.has(interaction.guildId) || getVoiceConnection(interaction.guildId)) {
       await replyWithError('Bot is already in a voice channel.');
       return;
     }
 
-    await interaction.deferReply();
-
-    const audioPlayer = new AudioPlayer();
-    const toolRegistry = new ToolRegistry();
-    if (TAVILY_CONFIG.ENABLED) {
-      toolRegistry.register('web_search', createTavilyTool(textChannel));
-    } else {
-      logger.info('Tavily API key not provided. Skipping registration of web_search tool.');
+    const settings = await guildSettings.get(interaction.guildId);
+    const profileName = interaction.options.getString('agent')?.trim().toLowerCase();
+    const profile = profileName ? findAgentProfile(settings, profileName) : undefined;
+    if (profileName && !profile) {
+      await replyWithError(
+        `There is no agent profile called \`${profileName}\`. See /agents list.`
+      );
+      return;
     }
-    const agent = new Agent(audioPlayer, toolRegistry);
-
-    const connection = joinVoiceChannel({
-      channelId: voiceChannel.id,
-      guildId: interaction.guildId!,
-      adapterCreator: interaction.guild.voiceAdapterCreator,
-      selfDeaf: false,
-      selfMute: false,
-    });
-
-    let initialized = false;
 
-    try {
-      connection.subscribe(audioPlayer);
+    await interaction.deferReply();
 
-      const speechHandler = new SpeechHandler(agent, connection);
-      await speechHandler.initialize();
+    const allowRole = interaction.options.getRole('allow_role');
+    const allowUser = interaction.options.getUser('allow_user');
+    const agentOptions = buildAgentOptions(interaction, voiceChannel);
+    if (profile) {
+      agentOptions.profile = profile;
+    } else if (settings.agentId) {
+      agentOptions.profile = { name: 'default', agentId: settings.agentId };
+    }
 
-      await interaction.editReply({
-        embeds: [Embeds.success('Connected', "Let's chat!")],
-      });
+    const session = await sessionManager.start({
+      guild: interaction.guild,
+      owner: interaction.member,
+      textChannel,
+      voiceChannel,
+      speakerMode: (interaction.options.getString('mode') ??
+        settings.defaultSpeakerMode) as SpeakerMode,
+      allowlist: {
+        roleIds: allowRole ? [allowRole.id] : [],
+        userIds: allowUser ? [allowUser.id] : [],
+      },
+      agentOptions,
+      transcript: interaction.options.getBoolean('transcript') ?? settings.transcriptByDefault,
+      settings,
+    });
 
-      initialized = true;
-    } finally {
-      if (!initialized) {
-        connection.destroy();
-        audioPlayer.stop();
-        agent.disconnect();
-      }
-    }
+    const panel = await interaction.editReply(session.controlPanel.render());
+    session.controlPanel.attach(panel);
   } catch (error) {
     logger.error(error, 'Failed to start ElevenLabs voice session');
 
-    if (interaction.deferred || interaction.replied) {
-      await interaction.editReply({
-        embeds: [
-          Embeds.error(
+    const embed =
+      error instanceof AgentAuthError
+        ? Embeds.error(
+            'ElevenLabs Authentication Failed',
+            'The agent rejected our credentials. Check `ELEVENLABS_API_KEY` and that the key has access to this agent.'
+          )
+        : Embeds.error(
             'Voice Session Failed',
             "Couldn't start the live conversation. Please try again in a moment."
-          ),
-        ],
-      });
+          );
+
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply({ embeds: [embed] });
     } else {
-      await safeReply({
-        embeds: [
-          Embeds.error(
-            'Voice Session Failed',
-            "Couldn't start the live conversation. Please try again in a moment."
-          ),
-        ],
-        ephemeral: true,
-      });
+      await safeReply({ embeds: [embed], ephemeral: true });
     }
   }
 }
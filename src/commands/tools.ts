@@ -0,0 +1,110 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { loadToolModules } from '../api/elevenlabs/tools/toolLoader.js';
+import { logger } from '../config/logger.js';
+import { guildSettings } from '../storage/guildSettings.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+/**
+ * Represents the structure of the tools command using native SlashCommandBuilder.
+ */
+export const data = new SlashCommandBuilder()
+  .setName('tools')
+  .setDescription('Shows or changes which tools the agent may use in this server.')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false)
+  .addSubcommand(subcommand =>
+    subcommand.setName('list').setDescription('Lists every tool and whether it is enabled.')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('enable')
+      .setDescription('Lets the agent use a tool.')
+      .addStringOption(option =>
+        option.setName('tool').setDescription('Name of the tool.').setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('disable')
+      .setDescription('Stops the agent from using a tool.')
+      .addStringOption(option =>
+        option.setName('tool').setDescription('Name of the tool.').setRequired(true)
+      )
+  );
+
+/**
+ * Executes the tools command. Only members who can manage the server may use it.
+ * Changes apply from the next session.
+ *
+ * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution.
+ * @returns {Promise<void>}
+ */
+export async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const guildId = interaction.guildId;
+    if (!guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [Embeds.error('Not Allowed', 'You need the Manage Server permission to do this.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const tools = await loadToolModules();
+    const settings = await guildSettings.get(guildId);
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+      const lines = tools.map(({ spec }) => {
+        const enabled = !settings.disabledTools.includes(spec.name);
+        return `${enabled ? '✅' : '⛔'} \`${spec.name}\`: ${spec.description}`;
+      });
+      await interaction.reply({
+        embeds: [Embeds.info('Tools', lines.join('\n') || 'No tools are installed.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const name = interaction.options.getString('tool', true).trim();
+    if (!tools.some(({ spec }) => spec.name === name)) {
+      const available = tools.map(({ spec }) => `\`${spec.name}\``).join(', ') || 'none';
+      await interaction.reply({
+        embeds: [
+          Embeds.error('Unknown Tool', `No tool named \`${name}\`. Available: ${available}.`),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const enable = subcommand === 'enable';
+    await guildSettings.update(guildId, current => {
+      const disabledTools = current.disabledTools.filter(tool => tool !== name);
+      if (!enable) disabledTools.push(name);
+      return { disabledTools };
+    });
+
+    await interaction.reply({
+      embeds: [
+        Embeds.success(
+          enable ? 'Tool Enabled' : 'Tool Disabled',
+          `\`${name}\` is now ${enable ? 'enabled' : 'disabled'}. This applies from the next /talk session.`
+        ),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error(error, 'Error in tools command');
+
+    const response = {
+      embeds: [Embeds.error('Error', 'An error occurred while updating tool settings.')],
+      ephemeral: true,
+    };
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(response);
+    } else {
+      await interaction.reply(response);
+    }
+  }
+}
@@ -1,41 +1,56 @@
-import 'dotenv/config';
-
-function loadOptionalEnv(key: string): string | undefined {
-  const value = process.env[key];
-  if (!value) return undefined;
-
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function loadEnv(key: string): string {
-  const value = loadOptionalEnv(key);
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${key}. Please check your .env file.`);
-  }
-  return value;
-}
+import { loadBooleanEnv, loadEnv, loadNumberEnv, loadOptionalEnv } from './env.js';
 
 export const DISCORD_CONFIG = {
   BOT_TOKEN: loadEnv('DISCORD_BOT_TOKEN'),
   CLIENT_ID: loadEnv('DISCORD_CLIENT_ID'),
 };
 
-const TAVILY_KEY = loadOptionalEnv('TAVILY_API_KEY');
-
-export const TAVILY_CONFIG = {
-  TAVILY_KEY,
-  MAX_RESULTS: 1,
-  INCLUDE_ANSWER: true,
-  INCLUDE_IMAGES: true,
-  AUTO_PARAMETERS: true,
-  SEARCH_DEPTH: "basic",
-  ENABLED: Boolean(TAVILY_KEY),
-} as const;
-
 const ELEVENLABS_WS_BASE_URL = 'wss://api.elevenlabs.io/v1/convai/conversation';
 const ELEVENLABS_AGENT_ID = loadEnv('AGENT_ID');
 
 export const ELEVENLABS_CONFIG = {
-  AGENT_WS_URL: `${ELEVENLABS_WS_BASE_URL}?agent_id=${ELEVENLABS_AGENT_ID}`,
+  AGENT_ID: ELEVENLABS_AGENT_ID,
+  WS_BASE_URL: ELEVENLABS_WS_BASE_URL,
+  /** When set, sessions authenticate with a signed URL so private agents work. */
+  API_KEY: loadOptionalEnv('ELEVENLABS_API_KEY'),
+  SIGNED_URL_ENDPOINT:
+    loadOptionalEnv('ELEVENLABS_SIGNED_URL_ENDPOINT') ??
+    'https://api.elevenlabs.io/v1/convai/conversation/get-signed-url',
+  RECONNECT_MAX_ATTEMPTS: loadNumberEnv('ELEVENLABS_RECONNECT_MAX_ATTEMPTS', 5),
+  RECONNECT_BASE_DELAY_MS: loadNumberEnv('ELEVENLABS_RECONNECT_BASE_DELAY_MS', 1_000),
+  RECONNECT_MAX_DELAY_MS: 15_000,
+} as const;
+
+export const STORAGE_CONFIG = {
+  /** Directory for persisted bot state such as per-guild settings. */
+  DATA_DIR: loadOptionalEnv('DATA_DIR') ?? 'data',
+  /** Default days to keep session history; guilds can override with /config (0 disables history). */
+  HISTORY_RETENTION_DAYS: loadNumberEnv('HISTORY_RETENTION_DAYS', 30),
+} as const;
+
+export const SESSION_CONFIG = {
+  /** Leave after this many minutes without user speech or agent audio (0 disables). */
+  IDLE_TIMEOUT_MINUTES: loadNumberEnv('SESSION_IDLE_TIMEOUT_MINUTES', 10),
+  /** Leave this many seconds after the last human leaves the voice channel (0 leaves immediately). */
+  EMPTY_CHANNEL_TIMEOUT_SECONDS: loadNumberEnv('SESSION_EMPTY_CHANNEL_TIMEOUT_SECONDS', 30),
+  IDLE_CHECK_INTERVAL_MS: 30_000,
+} as const;
+
+const VAD_GATED_AUDIO = loadOptionalEnv('VAD_GATED_AUDIO') ?? 'silence';
+if (VAD_GATED_AUDIO !== 'silence' && VAD_GATED_AUDIO !== 'drop') {
+  throw new Error('Environment variable VAD_GATED_AUDIO must be "silence" or "drop".');
+}
+
+export const VAD_CONFIG = {
+  ENABLED: loadBooleanEnv('VAD_ENABLED', true),
+  /** Level (dBFS) a frame must reach to open the gate. */
+  OPEN_THRESHOLD_DBFS: -Math.abs(loadNumberEnv('VAD_OPEN_THRESHOLD_DBFS', 45)),
+  /** Level (dBFS) below which an open gate starts its hangover countdown. */
+  CLOSE_THRESHOLD_DBFS: -Math.abs(loadNumberEnv('VAD_CLOSE_THRESHOLD_DBFS', 50)),
+  /** How long the gate stays open after the level drops, so word endings aren't clipped. */
+  HANGOVER_MS: loadNumberEnv('VAD_HANGOVER_MS', 300),
+  /** Audio kept from just before the gate opens, so word onsets aren't clipped. */
+  PRE_ROLL_MS: loadNumberEnv('VAD_PRE_ROLL_MS', 100),
+  /** Whether gated-out periods are sent to the agent as silence or not sent at all. */
+  GATED_AUDIO: VAD_GATED_AUDIO,
 } as const;
@@ -0,0 +1,40 @@
+import 'dotenv/config';
+
+/**
+ * Readers for environment variables, shared by the config modules.
+ */
+
+export function loadOptionalEnv(key: string): string | undefined {
+  const value = process.env[key];
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function loadEnv(key: string): string {
+  const value = loadOptionalEnv(key);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${key}. Please check your .env file.`);
+  }
+  return value;
+}
+
+export function loadNumberEnv(key: string, fallback: number): number {
+  const value = loadOptionalEnv(key);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Environment variable ${key} must be a non-negative number.`);
+  }
+  return parsed;
+}
+
+export function loadBooleanEnv(key: string, fallback: boolean): boolean {
+  const value = loadOptionalEnv(key)?.toLowerCase();
+  if (value === undefined) return fallback;
+  if (['true', '1', 'yes', 'on'].includes(value)) return true;
+  if (['false', '0', 'no', 'off'].includes(value)) return false;
+  throw new Error(`Environment variable ${key} must be true or false.`);
+}
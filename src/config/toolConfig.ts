@@ -0,0 +1,23 @@
+import { loadNumberEnv, loadOptionalEnv } from './env.js';
+
+// Settings tools read. They live apart from config.ts, which requires the bot's
+// credentials, so tool modules load without them, e.g. for `npm run tools:json`.
+
+const TAVILY_KEY = loadOptionalEnv('TAVILY_API_KEY');
+
+export const TAVILY_CONFIG = {
+  TAVILY_KEY,
+  /** Default for guilds that haven't set `search_max_results` with /config. */
+  MAX_RESULTS: 1,
+  INCLUDE_ANSWER: true,
+  INCLUDE_IMAGES: true,
+  AUTO_PARAMETERS: true,
+  /** Default for guilds that haven't set `search_depth` with /config. */
+  SEARCH_DEPTH: 'basic' as 'basic' | 'advanced',
+  ENABLED: Boolean(TAVILY_KEY),
+} as const;
+
+export const TOOL_CONFIG = {
+  /** Tool calls allowed to run at once in a session; further calls fail immediately. */
+  MAX_CONCURRENT_CALLS: Math.max(1, loadNumberEnv('TOOL_MAX_CONCURRENT_CALLS', 3)),
+} as const;
@@ -0,0 +1,198 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type EmbedBuilder,
+  type Message,
+  type MessageEditOptions,
+} from 'discord.js';
+import type { AgentConnectionState } from '../api/elevenlabs/agent.js';
+import { logger } from '../config/logger.js';
+import { Embeds } from '../utils/embedHelper.js';
+import type { LatencySnapshot } from '../utils/latencyTracker.js';
+import { formatDuration } from '../utils/time.js';
+import type { VoiceSessionStatus } from './voiceSession.js';
+
+/** Custom IDs of the control panel buttons. */
+export const PANEL_BUTTONS = {
+  pause: 'panel:pause',
+  stop: 'panel:stop',
+  restart: 'panel:restart',
+  end: 'panel:end',
+} as const;
+
+export type PanelButtonId = (typeof PANEL_BUTTONS)[keyof typeof PANEL_BUTTONS];
+
+/**
+ * The slash command each button stands in for. Pressing a button requires
+ * access to that command, so a guild's command rules cover the panel too.
+ */
+const BUTTON_COMMANDS: Record<PanelButtonId, string> = {
+  [PANEL_BUTTONS.pause]: 'talk',
+  [PANEL_BUTTONS.stop]: 'talk',
+  [PANEL_BUTTONS.restart]: 'talk',
+  [PANEL_BUTTONS.end]: 'leave',
+};
+
+/** Shortest gap between two edits of the panel message, to stay clear of rate limits. */
+const REFRESH_DEBOUNCE_MS = 1500;
+
+/** How often the panel is redrawn without a state change, so duration and latency stay current. */
+const REFRESH_INTERVAL_MS = 30_000;
+
+const AGENT_STATE_LABELS: Record<AgentConnectionState, string> = {
+  connecting: '🟡 Connecting',
+  open: '🟢 Connected',
+  reconnecting: '🟠 Reconnecting',
+  closed: '🔴 Disconnected',
+};
+
+function formatLatency({ averageMs, lastMs, samples }: LatencySnapshot): string {
+  if (averageMs === null) return 'No samples yet';
+  return `${averageMs} ms avg · ${lastMs} ms last (${samples} samples)`;
+}
+
+/**
+ * Whether a button custom ID belongs to the control panel.
+ */
+export function isPanelButton(customId: string): customId is PanelButtonId {
+  return Object.prototype.hasOwnProperty.call(BUTTON_COMMANDS, customId);
+}
+
+/**
+ * The slash command whose access rule applies to a button, if it has one.
+ */
+export function commandForButton(customId: string): string | undefined {
+  return isPanelButton(customId) ? BUTTON_COMMANDS[customId] : undefined;
+}
+
+/**
+ * Builds the embed shared by /status and the control panel.
+ */
+export function buildStatusEmbed(title: string, status: VoiceSessionStatus): EmbedBuilder {
+  const speakers = status.speakers.map(member => member.displayName).join(', ') || 'Nobody';
+
+  return Embeds.info(title).addFields(
+    {
+      name: 'Duration',
+      value: formatDuration(Date.now() - status.startedAt.getTime()),
+      inline: true,
+    },
+    { name: 'Started by', value: `<@${status.owner.id}>`, inline: true },
+    { name: 'Channel', value: `<#${status.voiceChannel.id}>`, inline: true },
+    { name: 'Listening', value: status.paused ? '⏸️ Paused' : status.listening },
+    { name: `Speakers (${status.speakers.length})`, value: speakers },
+    {
+      name: 'Agent',
+      value: status.agentProfile
+        ? `${status.agentProfile} · ${AGENT_STATE_LABELS[status.agentState]}`
+        : AGENT_STATE_LABELS[status.agentState],
+      inline: true,
+    },
+    { name: 'Latency', value: formatLatency(status.latency), inline: true }
+  );
+}
+
+/**
+ * A message with the session's live status and buttons to pause listening,
+ * stop the agent mid-sentence, restart the conversation or end the session.
+ * Edits are debounced, and the panel also redraws periodically so the
+ * duration and latency stay current.
+ */
+export class ControlPanel {
+  private readonly getStatus: () => VoiceSessionStatus;
+  private message: Message | null;
+  private refreshTimer: NodeJS.Timeout | null;
+  private intervalTimer: NodeJS.Timeout | null;
+  private closed: boolean;
+
+  /**
+   * @param getStatus - Reads the session's current state.
+   */
+  constructor(getStatus: () => VoiceSessionStatus) {
+    this.getStatus = getStatus;
+    this.message = null;
+    this.refreshTimer = null;
+    this.intervalTimer = null;
+    this.closed = false;
+  }
+
+  get messageId(): string | undefined {
+    return this.message?.id;
+  }
+
+  /**
+   * The panel's current content, for sending or editing the message.
+   */
+  render(): Pick<MessageEditOptions, 'embeds' | 'components' | 'allowedMentions'> {
+    const status = this.getStatus();
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(PANEL_BUTTONS.pause)
+        .setLabel(status.paused ? 'Resume listening' : 'Pause listening')
+        .setEmoji(status.paused ? '▶️' : '⏸️')
+        .setStyle(status.paused ? ButtonStyle.Success : ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(PANEL_BUTTONS.stop)
+        .setLabel('Stop talking')
+        .setEmoji('🤫')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(PANEL_BUTTONS.restart)
+        .setLabel('Restart conversation')
+        .setEmoji('🔄')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(PANEL_BUTTONS.end)
+        .setLabel('End session')
+        .setStyle(ButtonStyle.Danger)
+    );
+
+    return {
+      embeds: [buildStatusEmbed('Voice Session', status)],
+      components: [buttons],
+      allowedMentions: { parse: [] },
+    };
+  }
+
+  /**
+   * Starts keeping the given message up to date. It must already show `render()`.
+   */
+  attach(message: Message): void {
+    if (this.closed) return;
+
+    this.message = message;
+    this.intervalTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  /**
+   * Redraws the panel shortly, coalescing bursts of changes into one edit.
+   */
+  refresh(): void {
+    if (!this.message || this.closed || this.refreshTimer) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (this.closed) return;
+      this.message
+        ?.edit(this.render())
+        .catch(error => logger.warn(error, 'Failed to update control panel'));
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Replaces the panel with a summary and removes its buttons.
+   * @param summary - Shown in place of the status.
+   */
+  async close(summary: string): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    await this.message?.edit({
+      embeds: [Embeds.info('Voice Session Ended', summary)],
+      components: [],
+    });
+  }
+}
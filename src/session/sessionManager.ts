@@ -0,0 +1,118 @@
+import type {
+  ButtonInteraction,
+  Message,
+  MessageReaction,
+  PartialMessageReaction,
+  PartialUser,
+  User,
+  VoiceState,
+} from 'discord.js';
+import { logger } from '../config/logger.js';
+import { Embeds } from '../utils/embedHelper.js';
+import { VoiceSession, type VoiceSessionOptions } from './voiceSession.js';
+
+/**
+ * Registry of active voice sessions, at most one per guild.
+ */
+class SessionManager {
+  private readonly sessions = new Map<string, VoiceSession>();
+
+  get(guildId: string): VoiceSession | undefined {
+    return this.sessions.get(guildId);
+  }
+
+  has(guildId: string): boolean {
+    return this.sessions.has(guildId);
+  }
+
+  /**
+   * Creates, registers and starts a session. The session unregisters itself
+   * when it ends, including when it fails to start.
+   * @throws If a session is already active in the guild, or startup fails.
+   */
+  async start(options: VoiceSessionOptions): Promise<VoiceSession> {
+    const guildId = options.guild.id;
+    if (this.sessions.has(guildId)) {
+      throw new Error(`A voice session is already active in guild ${guildId}.`);
+    }
+
+    const session = new VoiceSession(options, ended => {
+      if (this.sessions.get(guildId) === ended) {
+        this.sessions.delete(guildId);
+      }
+    });
+    this.sessions.set(guildId, session);
+
+    await session.start();
+    return session;
+  }
+
+  /**
+   * Ends the guild's session, if any.
+   * @returns Whether a session was ended.
+   */
+  end(guildId: string): boolean {
+    const session = this.sessions.get(guildId);
+    if (!session) return false;
+
+    session.end();
+    return true;
+  }
+
+  /**
+   * Forwards a voice state change to the session in that guild, if any.
+   */
+  handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    this.sessions.get(newState.guild.id)?.handleVoiceStateUpdate(oldState, newState);
+  }
+
+  /**
+   * Forwards a guild message to the session in that guild, if any.
+   */
+  handleMessage(message: Message): void {
+    if (!message.guildId) return;
+    this.sessions.get(message.guildId)?.handleMessage(message);
+  }
+
+  /**
+   * Forwards a button press on a session message to the session in that guild.
+   * Buttons left over from a session that has ended get an explanation.
+   */
+  async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const session = interaction.guildId ? this.sessions.get(interaction.guildId) : undefined;
+    if (!session) {
+      await interaction.reply({
+        embeds: [Embeds.info('Session Ended', 'That voice session is no longer running.')],
+        ephemeral: true,
+      });
+      return;
+    }
+    await session.handleButton(interaction);
+  }
+
+  /**
+   * Forwards a reaction on a guild message to the session in that guild, if any.
+   */
+  handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): void {
+    const guildId = reaction.message.guildId;
+    if (!guildId) return;
+    this.sessions.get(guildId)?.handleReaction(reaction, user);
+  }
+
+  /**
+   * Ends every active session, e.g. on shutdown.
+   */
+  endAll(): void {
+    if (this.sessions.size) {
+      logger.info(`Ending ${this.sessions.size} active voice session(s).`);
+    }
+    for (const session of Array.from(this.sessions.values())) {
+      session.end();
+    }
+  }
+}
+
+export const sessionManager = new SessionManager();
@@ -0,0 +1,93 @@
+import type { Agent } from '../api/elevenlabs/agent.js';
+import type { HistoryEntry } from '../storage/sessionHistory.js';
+
+export interface SpeakerAttribution {
+  ids: string[];
+  names: string[];
+}
+
+/**
+ * Collects a session's transcript from agent events: user and agent turns,
+ * tool calls and their results, and the ElevenLabs conversation IDs.
+ */
+export class SessionRecorder {
+  readonly entries: HistoryEntry[];
+  readonly conversationIds: string[];
+  private readonly unsubscribers: (() => void)[];
+
+  /**
+   * @param agent - The agent to record. Attach before connecting so the first
+   * conversation ID is captured.
+   * @param resolveSpeakers - Who was talking when a user transcript arrived.
+   */
+  constructor(agent: Agent, resolveSpeakers: () => SpeakerAttribution) {
+    this.entries = [];
+    this.conversationIds = [];
+
+    const now = () => new Date().toISOString();
+    this.unsubscribers = [
+      agent.on('conversation_initiation_metadata', event => {
+        const conversationId = event.conversation_initiation_metadata_event?.conversation_id;
+        if (conversationId) this.conversationIds.push(conversationId);
+      }),
+      agent.on('user_transcript', event => {
+        const text = event.user_transcription_event?.user_transcript?.trim();
+        if (!text) return;
+        const speakers = resolveSpeakers();
+        this.entries.push({
+          type: 'user',
+          at: now(),
+          via: 'voice',
+          speakerIds: speakers.ids,
+          speakerNames: speakers.names,
+          text,
+        });
+      }),
+      agent.on('agent_response', event => {
+        const text = event.agent_response_event?.agent_response?.trim();
+        if (text) this.entries.push({ type: 'agent', at: now(), text });
+      }),
+      agent.on('client_tool_call', event => {
+        const call = event.client_tool_call;
+        if (!call?.tool_name || !call.tool_call_id) return;
+        this.entries.push({
+          type: 'tool_call',
+          at: now(),
+          toolCallId: call.tool_call_id,
+          tool: call.tool_name,
+          parameters: call.parameters ?? {},
+        });
+      }),
+      agent.on('tool_result', event => {
+        this.entries.push({
+          type: 'tool_result',
+          at: now(),
+          toolCallId: event.tool_call_id,
+          result: event.result,
+          isError: event.is_error,
+        });
+      }),
+    ];
+  }
+
+  /**
+   * Records a message typed in the session's text channel.
+   */
+  recordChatMessage(userId: string, name: string, text: string): void {
+    this.entries.push({
+      type: 'user',
+      at: new Date().toISOString(),
+      via: 'chat',
+      speakerIds: [userId],
+      speakerNames: [name],
+      text,
+    });
+  }
+
+  /**
+   * Stops recording.
+   */
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
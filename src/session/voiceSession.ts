@@ -0,0 +1,828 @@
+import {
+  AudioPlayer,
+  joinVoiceChannel,
+  VoiceConnection,
+  VoiceConnectionStatus,
+} from '@discordjs/voice';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  type ButtonInteraction,
+  ButtonStyle,
+  ChannelType,
+  type EmbedBuilder,
+  type Guild,
+  type GuildMember,
+  type Message,
+  type MessageReaction,
+  type PartialMessageReaction,
+  type PartialUser,
+  type TextChannel,
+  type User,
+  type VoiceBasedChannel,
+  type VoiceState,
+} from 'discord.js';
+import path from 'path';
+import { ConversationRecorder } from '../api/discord/conversationRecorder.js';
+import { hasAccess } from '../api/discord/permissions.js';
+import { SpeechHandler } from '../api/discord/speech.js';
+import {
+  type SpeakerAllowlist,
+  SpeakerFilter,
+  type SpeakerMode,
+} from '../api/discord/speakerFilter.js';
+import { TranscriptThread } from '../api/discord/transcriptThread.js';
+import { Agent, type AgentConnectionState, type AgentOptions } from '../api/elevenlabs/agent.js';
+import { ToolRegistry } from '../api/elevenlabs/tools/toolRegistry.js';
+import type { AgentProfile } from '../api/elevenlabs/types/profiles.js';
+import type { ToolHandler } from '../api/elevenlabs/types/tools.js';
+import { loadToolModules } from '../api/elevenlabs/tools/toolLoader.js';
+import { SESSION_CONFIG } from '../config/config.js';
+import { logger } from '../config/logger.js';
+import { type GuildSettings, guildSettings } from '../storage/guildSettings.js';
+import { type SessionRecord, sessionHistory } from '../storage/sessionHistory.js';
+import { ControlPanel, isPanelButton, PANEL_BUTTONS, type PanelButtonId } from './controlPanel.js';
+import { SessionRecorder, type SpeakerAttribution } from './sessionRecorder.js';
+import { Embeds } from '../utils/embedHelper.js';
+import type { LatencySnapshot } from '../utils/latencyTracker.js';
+import { formatDuration } from '../utils/time.js';
+
+export interface VoiceSessionOptions {
+  guild: Guild;
+  owner: GuildMember;
+  textChannel: TextChannel;
+  voiceChannel: VoiceBasedChannel;
+  speakerMode: SpeakerMode;
+  allowlist?: SpeakerAllowlist;
+  agentOptions?: AgentOptions;
+  transcript?: boolean;
+  /** The guild's stored settings, read when the session was requested. */
+  settings: GuildSettings;
+}
+
+export interface VoiceSessionStatus {
+  startedAt: Date;
+  owner: GuildMember;
+  voiceChannel: VoiceBasedChannel;
+  speakerMode: SpeakerMode;
+  /** Who the bot listens to, as a sentence. */
+  listening: string;
+  /** Whether listening is paused from the control panel. */
+  paused: boolean;
+  agentProfile: string | undefined;
+  speakers: GuildMember[];
+  agentState: AgentConnectionState;
+  latency: LatencySnapshot;
+}
+
+/** How far back a voice or chat message still counts as the current request. */
+const REQUESTER_WINDOW_MS = 10_000;
+
+/** Custom ID of the "Don't record me" button on the recording notice. */
+const RECORDING_OPT_OUT_ID = 'recording:opt-out';
+
+/** Reaction on the recording notice that also opts a member out. */
+const RECORDING_OPT_OUT_EMOJI = '🚫';
+
+/**
+ * Describes a member's voice state change as a sentence for the agent.
+ * @returns The description, or null when nothing the agent cares about changed.
+ */
+function describeVoiceStateChange(
+  name: string,
+  oldState: VoiceState,
+  newState: VoiceState,
+  wasHere: boolean,
+  isHere: boolean
+): string | null {
+  if (!wasHere) return `${name} joined the voice channel.`;
+  if (!isHere) return `${name} left the voice channel.`;
+
+  if (Boolean(oldState.mute) !== Boolean(newState.mute)) {
+    return newState.mute ? `${name} muted their microphone.` : `${name} unmuted their microphone.`;
+  }
+  if (Boolean(oldState.streaming) !== Boolean(newState.streaming)) {
+    return newState.streaming
+      ? `${name} started streaming their screen.`
+      : `${name} stopped streaming their screen.`;
+  }
+  return null;
+}
+
+/**
+ * Owns everything that lives for the duration of one voice conversation in a
+ * guild: the voice connection, audio player, agent, tools and speech handler.
+ */
+export class VoiceSession {
+  readonly guild: Guild;
+  readonly owner: GuildMember;
+  readonly textChannel: TextChannel;
+  readonly voiceChannel: VoiceBasedChannel;
+  readonly startedAt: Date;
+  readonly speakerFilter: SpeakerFilter;
+  readonly agent: Agent;
+  readonly agentProfile: AgentProfile | undefined;
+  readonly controlPanel: ControlPanel;
+  /** ID under which the session's history is saved. */
+  readonly id: string;
+  private readonly settings: GuildSettings;
+  private readonly audioPlayer: AudioPlayer;
+  private readonly toolRegistry: ToolRegistry;
+  private readonly transcriptEnabled: boolean;
+  private readonly unsubscribers: (() => void)[];
+  private readonly onEnd: (session: VoiceSession) => void;
+  private connection: VoiceConnection | null;
+  private speechHandler: SpeechHandler | null;
+  private transcript: TranscriptThread | null;
+  private recorder: SessionRecorder | null;
+  private audioRecorder: ConversationRecorder | null;
+  private recordingNotice: Message | null;
+  private idleTimer: NodeJS.Timeout | null;
+  private emptyChannelTimer: NodeJS.Timeout | null;
+  private lastChatMessage: { userId: string; at: number } | null;
+  private ended: boolean;
+
+  /**
+   * @param options - Who started the session, where, and how it should behave.
+   * @param onEnd - Called once when the session ends for any reason.
+   */
+  constructor(options: VoiceSessionOptions, onEnd: (session: VoiceSession) => void) {
+    this.guild = options.guild;
+    this.owner = options.owner;
+    this.textChannel = options.textChannel;
+    this.voiceChannel = options.voiceChannel;
+    this.startedAt = new Date();
+    this.settings = options.settings;
+    this.agentProfile = options.agentOptions?.profile;
+    this.id = sessionHistory.createId();
+    this.transcriptEnabled = options.transcript ?? false;
+    this.unsubscribers = [];
+    this.onEnd = onEnd;
+    this.connection = null;
+    this.speechHandler = null;
+    this.transcript = null;
+    this.recorder = null;
+    this.audioRecorder = null;
+    this.recordingNotice = null;
+    this.idleTimer = null;
+    this.emptyChannelTimer = null;
+    this.lastChatMessage = null;
+    this.ended = false;
+
+    this.speakerFilter = new SpeakerFilter(options.guild, options.owner.id);
+    this.speakerFilter.setMode(options.speakerMode, options.allowlist);
+
+    this.audioPlayer = new AudioPlayer();
+    this.toolRegistry = new ToolRegistry();
+    this.agent = new Agent(this.audioPlayer, this.toolRegistry, options.agentOptions);
+    this.controlPanel = new ControlPanel(() => this.getStatus());
+  }
+
+  get guildId(): string {
+    return this.guild.id;
+  }
+
+  /**
+   * Joins the voice channel and starts the conversation. On failure everything
+   * is torn down before the error is rethrown.
+   */
+  async start(): Promise<void> {
+    const connection = joinVoiceChannel({
+      channelId: this.voiceChannel.id,
+      guildId: this.guild.id,
+      adapterCreator: this.guild.voiceAdapterCreator,
+      selfDeaf: false,
+      selfMute: false,
+    });
+    this.connection = connection;
+    connection.once(VoiceConnectionStatus.Destroyed, () => this.handleEnded());
+
+    try {
+      connection.subscribe(this.audioPlayer);
+      await this.registerTools();
+      if (this.settings.historyRetentionDays > 0) {
+        this.recorder = new SessionRecorder(this.agent, () => this.getRecentSpeakers());
+      }
+
+      this.speechHandler = new SpeechHandler(this.agent, connection, this.speakerFilter);
+      await this.speechHandler.initialize();
+      if (this.settings.recordingEnabled) {
+        await this.startRecording(this.speechHandler);
+      }
+
+      this.watchAgentConnection();
+      this.announceMembers();
+      if (this.transcriptEnabled) {
+        await this.startTranscript();
+      }
+
+      this.startIdleWatch();
+      this.checkChannelOccupancy();
+    } catch (error) {
+      this.end();
+      throw error;
+    }
+  }
+
+  /**
+   * Leaves the voice channel and closes the agent conversation.
+   * @param reason - When given, posted to the text channel to explain why the bot left.
+   */
+  end(reason?: string): void {
+    if (reason && !this.ended) {
+      this.textChannel
+        .send({ embeds: [Embeds.info('Left Voice Channel', reason)] })
+        .catch(error => logger.error(error, 'Failed to post session end notice'));
+    }
+
+    if (this.connection && this.connection.state.status !== VoiceConnectionStatus.Destroyed) {
+      this.connection.destroy();
+    } else {
+      this.handleEnded();
+    }
+  }
+
+  /**
+   * Tells the agent who joined, left, muted or started streaming in the
+   * session's voice channel, and re-evaluates channel occupancy on moves.
+   */
+  handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    const wasHere = oldState.channelId === this.voiceChannel.id;
+    const isHere = newState.channelId === this.voiceChannel.id;
+    if (!wasHere && !isHere) return;
+
+    const member = newState.member ?? oldState.member;
+    if (member && !member.user.bot) {
+      const update = describeVoiceStateChange(
+        member.displayName,
+        oldState,
+        newState,
+        wasHere,
+        isHere
+      );
+      if (update) this.agent.sendContextualUpdate(update);
+    }
+
+    if (wasHere !== isHere) {
+      this.checkChannelOccupancy();
+      this.controlPanel.refresh();
+    }
+  }
+
+  /**
+   * Forwards messages typed in the session's text channel or transcript thread
+   * to the agent, so members who can't speak can still take part. Messages from
+   * bots and from members the speaker filter excludes are ignored.
+   */
+  handleMessage(message: Message): void {
+    if (message.author.bot || !message.content.trim()) return;
+    if (
+      message.channelId !== this.textChannel.id &&
+      message.channelId !== this.transcript?.channel.id
+    ) {
+      return;
+    }
+    if (!this.speakerFilter.allows(message.author.id)) return;
+
+    const name = message.member?.displayName ?? message.author.username;
+    if (!this.agent.sendUserMessage(`${name}: ${message.content}`)) {
+      logger.warn('Dropped chat message because the agent is not connected.');
+      return;
+    }
+    this.lastChatMessage = { userId: message.author.id, at: Date.now() };
+    this.recorder?.recordChatMessage(message.author.id, name, message.content);
+    // Messages typed in the thread are already there.
+    if (message.channelId !== this.transcript?.channel.id) {
+      this.transcript?.postUserTurn(`${name} (chat)`, message.content);
+    }
+  }
+
+  /**
+   * Handles a button on one of the session's messages. Access to control panel
+   * buttons has already been checked by the caller.
+   */
+  async handleButton(interaction: ButtonInteraction): Promise<void> {
+    if (isPanelButton(interaction.customId)) {
+      await this.handlePanelButton(interaction, interaction.customId);
+    } else if (interaction.customId === RECORDING_OPT_OUT_ID) {
+      await this.handleRecordingOptOut(interaction);
+    }
+  }
+
+  /**
+   * Treats the opt-out reaction on the recording notice like the button.
+   */
+  handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): void {
+    if (user.bot || reaction.message.id !== this.recordingNotice?.id) return;
+    if (reaction.emoji.name !== RECORDING_OPT_OUT_EMOJI) return;
+
+    this.excludeFromRecording(user);
+  }
+
+  /**
+   * Snapshot of the session for status reporting.
+   */
+  getStatus(): VoiceSessionStatus {
+    return {
+      startedAt: this.startedAt,
+      owner: this.owner,
+      voiceChannel: this.voiceChannel,
+      speakerMode: this.speakerFilter.currentMode,
+      listening: this.speakerFilter.describe(),
+      paused: this.speechHandler?.isPaused ?? false,
+      agentProfile: this.agentProfile?.name,
+      speakers: Array.from(this.voiceChannel.members.values()).filter(member => !member.user.bot),
+      agentState: this.agent.connectionState,
+      latency: this.agent.getLatency(),
+    };
+  }
+
+  /**
+   * Releases session resources once the voice connection is gone, whether we
+   * ended it or Discord did.
+   */
+  private handleEnded(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    if (this.idleTimer) clearInterval(this.idleTimer);
+    if (this.emptyChannelTimer) clearTimeout(this.emptyChannelTimer);
+    this.audioPlayer.stop();
+    this.agent.disconnect();
+    this.transcript
+      ?.close()
+      .catch(error => logger.error(error, 'Failed to close transcript thread'));
+    this.speechHandler?.setRecordingTap(null);
+    this.controlPanel
+      .close(`Lasted ${formatDuration(Date.now() - this.startedAt.getTime())}.`)
+      .catch(error => logger.error(error, 'Failed to close control panel'));
+    this.recordingNotice
+      ?.edit({
+        embeds: [Embeds.info('Recording Ended', 'This conversation is no longer being recorded.')],
+        components: [],
+      })
+      .catch(error => logger.error(error, 'Failed to update recording notice'));
+    this.saveHistory().catch(error => logger.error(error, 'Failed to save session history'));
+
+    logger.info(`Voice session in guild ${this.guild.id} ended.`);
+    this.onEnd(this);
+  }
+
+  /**
+   * Writes the recorded transcript, and the audio recording if any, to session
+   * history. Sessions with nothing said and no audio are not kept, and nor is
+   * anything if an admin turned history off while the session ran.
+   */
+  private async saveHistory(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    recorder.detach();
+    const recording = await this.stopRecording();
+    if (!recorder.entries.length && !recording) return;
+
+    const { historyRetentionDays } = await guildSettings.get(this.guild.id);
+    if (!historyRetentionDays) {
+      await sessionHistory.delete(this.guild.id, this.id);
+      return;
+    }
+
+    await sessionHistory.save({
+      id: this.id,
+      guildId: this.guild.id,
+      voiceChannelId: this.voiceChannel.id,
+      voiceChannelName: this.voiceChannel.name,
+      ownerId: this.owner.id,
+      agentProfile: this.agentProfile?.name,
+      conversationIds: recorder.conversationIds,
+      startedAt: this.startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      entries: recorder.entries,
+      recording,
+    });
+    logger.info(`Saved session history ${this.id} for guild ${this.guild.id}.`);
+  }
+
+  /**
+   * Acts on a control panel button. Presses on a panel left over from an
+   * earlier session are refused.
+   */
+  private async handlePanelButton(
+    interaction: ButtonInteraction,
+    buttonId: PanelButtonId
+  ): Promise<void> {
+    if (interaction.message.id !== this.controlPanel.messageId) {
+      await interaction.reply({
+        embeds: [Embeds.info('Old Control Panel', 'Use the panel of the current session instead.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const name =
+      this.guild.members.cache.get(interaction.user.id)?.displayName ?? interaction.user.username;
+    switch (buttonId) {
+      case PANEL_BUTTONS.pause:
+        this.speechHandler?.setPaused(!this.speechHandler.isPaused);
+        await interaction.update(this.controlPanel.render());
+        return;
+      case PANEL_BUTTONS.stop:
+        this.agent.stopSpeaking();
+        this.audioRecorder?.interrupt();
+        await interaction.deferUpdate();
+        return;
+      case PANEL_BUTTONS.restart:
+        await interaction.deferUpdate();
+        await this.restartConversation(interaction, name);
+        return;
+      case PANEL_BUTTONS.end:
+        await interaction.deferUpdate();
+        this.end(`${name} ended the session.`);
+        return;
+    }
+  }
+
+  /**
+   * Replaces the agent conversation with a fresh one. If that fails, the
+   * agent's reconnect policy takes over and reports progress as usual.
+   */
+  private async restartConversation(interaction: ButtonInteraction, name: string): Promise<void> {
+    this.audioRecorder?.interrupt();
+    try {
+      await this.agent.restart();
+    } catch (error) {
+      logger.warn(error, 'Failed to restart the agent conversation');
+      await interaction.followUp({
+        embeds: [Embeds.error('Restart Failed', "Couldn't start a new conversation.")],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    logger.info(`${name} restarted the conversation in guild ${this.guild.id}.`);
+    this.announceMembers();
+    this.controlPanel.refresh();
+    await interaction.followUp({
+      embeds: [Embeds.success('Conversation Restarted', 'The agent is starting over.')],
+      ephemeral: true,
+    });
+  }
+
+  /**
+   * Leaves the member who clicked "Don't record me" out of the recording.
+   */
+  private async handleRecordingOptOut(interaction: ButtonInteraction): Promise<void> {
+    if (!this.audioRecorder || interaction.message.id !== this.recordingNotice?.id) {
+      await interaction.reply({
+        embeds: [Embeds.info('Not Recording', 'That recording has already ended.')],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    this.excludeFromRecording(interaction.user);
+    await interaction.reply({
+      embeds: [
+        Embeds.success(
+          'Not Recording You',
+          "Your voice won't be in the recording from now on. The agent can still hear you."
+        ),
+      ],
+      ephemeral: true,
+    });
+  }
+
+  /**
+   * Records the conversation to the session archive once it has been announced
+   * in the text channel. Recording is tied to the session's history, so it is
+   * skipped when history is off, and also when the announcement can't be posted.
+   */
+  private async startRecording(speechHandler: SpeechHandler): Promise<void> {
+    if (!this.recorder) {
+      logger.warn(
+        `Recording is enabled in guild ${this.guild.id} but session history is off; not recording.`
+      );
+      return;
+    }
+
+    try {
+      const filePath = await sessionHistory.prepareRecordingPath(this.guild.id, this.id);
+      this.recordingNotice = await this.textChannel.send({
+        embeds: [
+          Embeds.info(
+            '🔴 Recording',
+            `This conversation is being recorded for quality review. Click **Don't record me** or react with ${RECORDING_OPT_OUT_EMOJI} to leave your voice out of the recording.`
+          ),
+        ],
+        components: [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(RECORDING_OPT_OUT_ID)
+              .setLabel("Don't record me")
+              .setEmoji(RECORDING_OPT_OUT_EMOJI)
+              .setStyle(ButtonStyle.Secondary)
+          ),
+        ],
+      });
+      this.audioRecorder = new ConversationRecorder(filePath, speechHandler.inputSampleRate);
+    } catch (error) {
+      logger.warn(error, 'Could not announce the recording; continuing without it');
+      return;
+    }
+
+    const audioRecorder = this.audioRecorder;
+    speechHandler.setRecordingTap((userId, pcm) => audioRecorder.pushInput(userId, pcm));
+    this.unsubscribers.push(
+      this.agent.on('output_audio', ({ pcm }) => audioRecorder.pushOutput(pcm)),
+      this.agent.on('interruption', () => audioRecorder.interrupt())
+    );
+    audioRecorder.start();
+    logger.info(`Recording session ${this.id} in guild ${this.guild.id}.`);
+
+    this.recordingNotice
+      .react(RECORDING_OPT_OUT_EMOJI)
+      .catch(error => logger.warn(error, 'Could not add the opt-out reaction'));
+  }
+
+  /**
+   * Finishes the audio recording, if there is one.
+   * @returns What to store about it in the session record.
+   */
+  private async stopRecording(): Promise<SessionRecord['recording']> {
+    const audioRecorder = this.audioRecorder;
+    if (!audioRecorder) return undefined;
+    this.audioRecorder = null;
+
+    let durationSeconds: number;
+    try {
+      durationSeconds = await audioRecorder.stop();
+    } catch (error) {
+      logger.error(error, `Recording of session ${this.id} failed; leaving it out of the history`);
+      return undefined;
+    }
+    return {
+      fileName: path.basename(audioRecorder.filePath),
+      durationSeconds,
+      excludedUserIds: audioRecorder.excludedUserIds,
+    };
+  }
+
+  /**
+   * Leaves a member's voice out of the rest of the recording.
+   */
+  private excludeFromRecording(user: User | PartialUser): void {
+    if (!this.audioRecorder || this.audioRecorder.isExcluded(user.id)) return;
+
+    this.audioRecorder.exclude(user.id);
+    logger.info(`Excluded ${user.id} from the recording of session ${this.id}.`);
+  }
+
+  /**
+   * Members whose audio recently reached the agent, most recent first.
+   */
+  private getRecentSpeakers(): SpeakerAttribution {
+    const ids = this.speechHandler?.getRecentSpeakers() ?? [];
+    return {
+      ids,
+      names: ids.map(
+        userId => this.guild.members.cache.get(userId)?.displayName ?? 'Unknown speaker'
+      ),
+    };
+  }
+
+  /**
+   * Creates this session's instance of every tool the guild has not disabled.
+   * A tool that fails to initialise is skipped rather than failing the session.
+   */
+  private async registerTools(): Promise<void> {
+    const settings = this.settings;
+    const context = {
+      guild: this.guild,
+      textChannel: this.textChannel,
+      voiceChannel: this.voiceChannel,
+      member: this.owner,
+      settings,
+    };
+
+    const allowedTools = this.agentProfile?.allowedTools;
+    for (const tool of await loadToolModules()) {
+      if (settings.disabledTools.includes(tool.spec.name)) {
+        logger.info(`Tool '${tool.spec.name}' is disabled in guild ${this.guild.id}.`);
+        continue;
+      }
+      if (allowedTools && !allowedTools.includes(tool.spec.name)) {
+        logger.debug(`Tool '${tool.spec.name}' is not allowed for this agent profile.`);
+        continue;
+      }
+
+      try {
+        const handler = tool.create(context);
+        if (handler) {
+          this.toolRegistry.register({
+            ...tool.spec,
+            handler: this.guardTool(tool.spec.name, handler),
+          });
+        }
+      } catch (error) {
+        logger.error(error, `Failed to initialise tool '${tool.spec.name}'`);
+      }
+    }
+  }
+
+  /**
+   * Wraps a tool handler so it only runs when the member who asked for it
+   * passes the guild's access rule for the tool. Rules are read on every call,
+   * so changes apply to the running session.
+   */
+  private guardTool(name: string, handler: ToolHandler): ToolHandler {
+    const spokenName = name.replace(/_/g, ' ');
+
+    return async invocation => {
+      const rule = (await guildSettings.get(this.guild.id)).toolAccess[name];
+      if (!rule) return handler(invocation);
+
+      const requesterId = this.getRequesterId();
+      const requester = requesterId ? this.guild.members.cache.get(requesterId) : undefined;
+      if (!requester) {
+        invocation.respond(
+          `I couldn't tell who asked, and ${spokenName} is limited to certain people. Could you ask again?`,
+          true
+        );
+        return;
+      }
+      if (!hasAccess(requester, rule)) {
+        logger.info(`Denied tool '${name}' to ${requester.user.tag} in guild ${this.guild.id}.`);
+        invocation.respond(
+          `Sorry ${requester.displayName}, you're not allowed to use ${spokenName}. A server admin can give you access.`,
+          true
+        );
+        return;
+      }
+      return handler(invocation);
+    };
+  }
+
+  /**
+   * Best guess at who made the current request: whoever most recently spoke
+   * or typed to the agent.
+   */
+  private getRequesterId(): string | undefined {
+    const chat = this.lastChatMessage;
+    const lastSpokeAt = this.speechHandler?.lastActivityAt ?? 0;
+    if (chat && chat.at >= lastSpokeAt && Date.now() - chat.at <= REQUESTER_WINDOW_MS) {
+      return chat.userId;
+    }
+    return this.speechHandler?.getRecentSpeakers(REQUESTER_WINDOW_MS)[0];
+  }
+
+  /**
+   * Periodically ends the session once neither users nor the agent have
+   * produced audio for the configured idle timeout.
+   */
+  private startIdleWatch(): void {
+    const idleMinutes = this.settings.idleTimeoutMinutes;
+    const timeoutMs = idleMinutes * 60_000;
+    if (!timeoutMs) return;
+
+    this.idleTimer = setInterval(() => {
+      const lastActivity = Math.max(
+        this.startedAt.getTime(),
+        this.speechHandler?.lastActivityAt ?? 0,
+        this.agent.lastActivityAt
+      );
+      if (Date.now() - lastActivity >= timeoutMs) {
+        this.end(
+          `Nobody has said anything for ${idleMinutes} minutes, so I ended the conversation.`
+        );
+      }
+    }, SESSION_CONFIG.IDLE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Starts the empty-channel countdown when no humans remain in the voice
+   * channel, and cancels it when someone comes back.
+   */
+  private checkChannelOccupancy(): void {
+    const humans = this.voiceChannel.members.filter(member => !member.user.bot).size;
+    if (humans > 0) {
+      if (this.emptyChannelTimer) {
+        clearTimeout(this.emptyChannelTimer);
+        this.emptyChannelTimer = null;
+      }
+      return;
+    }
+
+    if (this.emptyChannelTimer) return;
+    this.emptyChannelTimer = setTimeout(() => {
+      this.end('Everyone left the voice channel, so I left too.');
+    }, this.settings.emptyChannelTimeoutSeconds * 1000);
+  }
+
+  /**
+   * Keeps the text channel informed while the agent reconnects, and ends the
+   * session if the agent cannot be recovered or ends the conversation itself.
+   */
+  private watchAgentConnection(): void {
+    const notify = (embed: EmbedBuilder) => {
+      this.textChannel
+        .send({ embeds: [embed] })
+        .catch(error => logger.error(error, 'Failed to post agent connection notice'));
+    };
+
+    this.unsubscribers.push(
+      this.agent.on('reconnecting', ({ attempt, maxAttempts }) => {
+        this.controlPanel.refresh();
+        if (attempt === 1) {
+          notify(
+            Embeds.info(
+              'Reconnecting',
+              `Lost the connection to the agent. Trying to reconnect (up to ${maxAttempts} attempts)...`
+            )
+          );
+        }
+      }),
+      this.agent.on('reconnected', () => {
+        notify(Embeds.success('Reconnected', "I'm back! Go ahead and keep talking."));
+        this.announceMembers();
+        this.controlPanel.refresh();
+      }),
+      this.agent.on('connection_lost', () => {
+        notify(
+          Embeds.error(
+            'Connection Lost',
+            "Couldn't reconnect to the agent, so I've left the voice channel. Use /talk to start again."
+          )
+        );
+        this.end();
+      }),
+      this.agent.on('conversation_ended', () => {
+        this.end('The agent ended the conversation. Use /talk to start a new one.');
+      })
+    );
+  }
+
+  /**
+   * Tells the agent who is currently in the voice channel. Sent at the start of
+   * every conversation, including after a reconnect.
+   */
+  private announceMembers(): void {
+    const names = this.voiceChannel.members
+      .filter(member => !member.user.bot)
+      .map(member => member.displayName);
+    this.agent.sendContextualUpdate(
+      names.length
+        ? `Currently in the voice channel "${this.voiceChannel.name}": ${names.join(', ')}.`
+        : `Nobody else is in the voice channel "${this.voiceChannel.name}" right now.`
+    );
+  }
+
+  /**
+   * The channel that hosts the transcript thread: the guild's configured
+   * transcript channel if it still exists, otherwise the session's text channel.
+   */
+  private async resolveTranscriptChannel(): Promise<TextChannel> {
+    const channelId = this.settings.transcriptChannelId;
+    if (!channelId) return this.textChannel;
+
+    const channel = await this.guild.channels.fetch(channelId).catch(() => null);
+    if (channel?.type === ChannelType.GuildText) return channel;
+
+    logger.warn(`Transcript channel ${channelId} is unavailable; using the session channel.`);
+    return this.textChannel;
+  }
+
+  /**
+   * Opens a transcript thread and mirrors every conversation turn into it.
+   * Failure to open the thread is not fatal.
+   */
+  private async startTranscript(): Promise<void> {
+    let transcript: TranscriptThread;
+    try {
+      transcript = await TranscriptThread.open(
+        await this.resolveTranscriptChannel(),
+        this.voiceChannel.name
+      );
+    } catch (error) {
+      logger.warn(error, 'Could not open transcript thread; continuing without it');
+      return;
+    }
+    this.transcript = transcript;
+
+    this.unsubscribers.push(
+      this.agent.on('user_transcript', event => {
+        const text = event.user_transcription_event?.user_transcript?.trim();
+        if (!text) return;
+
+        const { names } = this.getRecentSpeakers();
+        transcript.postUserTurn(names.length ? names.join(', ') : 'Unknown speaker', text);
+      }),
+      this.agent.on('agent_response', event => {
+        const text = event.agent_response_event?.agent_response?.trim();
+        if (text) transcript.postAgentTurn(text);
+      })
+    );
+  }
+}
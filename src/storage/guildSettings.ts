@@ -0,0 +1,200 @@
+import type { PermissionsString } from 'discord.js';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SpeakerMode } from '../api/discord/speakerFilter.js';
+import type { AgentProfile } from '../api/elevenlabs/types/profiles.js';
+import { SESSION_CONFIG, STORAGE_CONFIG } from '../config/config.js';
+import { TAVILY_CONFIG } from '../config/toolConfig.js';
+import { logger } from '../config/logger.js';
+
+/**
+ * Who may use a command or tool. A member qualifies by holding any listed role
+ * or any listed permission. A rule with nothing listed lets everyone through.
+ */
+export interface AccessRule {
+  roleIds: string[];
+  permissions: PermissionsString[];
+}
+
+/**
+ * Settings an admin can change for a single guild.
+ */
+export interface GuildSettings {
+  /** ElevenLabs agent to talk to when /talk names no profile; null uses `AGENT_ID` from the environment. */
+  agentId: string | null;
+  /** Named agents selectable with `/talk agent:`, keyed by profile name. */
+  agentProfiles: Record<string, AgentProfile>;
+  /** Listening mode for `/talk` when none is given. */
+  defaultSpeakerMode: SpeakerMode;
+  /** Whether `/talk` opens a transcript thread when the option is omitted. */
+  transcriptByDefault: boolean;
+  /** Text channel that hosts transcript threads; null uses the channel `/talk` ran in. */
+  transcriptChannelId: string | null;
+  /** Leave after this many minutes without speech (0 disables). */
+  idleTimeoutMinutes: number;
+  /** Leave this many seconds after the last person leaves the voice channel. */
+  emptyChannelTimeoutSeconds: number;
+  /** Results the web search tool asks Tavily for. */
+  searchMaxResults: number;
+  searchDepth: 'basic' | 'advanced';
+  /** Days to keep session history (0 disables saving it). */
+  historyRetentionDays: number;
+  /** Whether sessions are recorded to a WAV file next to their history. Needs history enabled. */
+  recordingEnabled: boolean;
+  /** Names of tools the agent may not use in this guild. */
+  disabledTools: string[];
+  /** Access rules keyed by slash command name; commands without one are open to everyone. */
+  commandAccess: Record<string, AccessRule>;
+  /** Access rules keyed by tool name; tools without one are open to everyone. */
+  toolAccess: Record<string, AccessRule>;
+}
+
+export const DEFAULT_GUILD_SETTINGS: Readonly<GuildSettings> = {
+  agentId: null,
+  agentProfiles: {},
+  defaultSpeakerMode: 'open',
+  transcriptByDefault: false,
+  transcriptChannelId: null,
+  idleTimeoutMinutes: SESSION_CONFIG.IDLE_TIMEOUT_MINUTES,
+  emptyChannelTimeoutSeconds: SESSION_CONFIG.EMPTY_CHANNEL_TIMEOUT_SECONDS,
+  searchMaxResults: TAVILY_CONFIG.MAX_RESULTS,
+  searchDepth: TAVILY_CONFIG.SEARCH_DEPTH,
+  historyRetentionDays: STORAGE_CONFIG.HISTORY_RETENTION_DAYS,
+  recordingEnabled: false,
+  disabledTools: [],
+  commandAccess: {},
+  toolAccess: {},
+};
+
+/**
+ * Looks up one of the guild's agent profiles by name. Names are user input,
+ * so inherited properties such as `constructor` are not profiles.
+ */
+export function findAgentProfile(settings: GuildSettings, name: string): AgentProfile | undefined {
+  return Object.prototype.hasOwnProperty.call(settings.agentProfiles, name)
+    ? settings.agentProfiles[name]
+    : undefined;
+}
+
+/**
+ * A copy of stored settings with defaults for anything never set.
+ */
+function withDefaults(stored: Partial<GuildSettings> | undefined): GuildSettings {
+  return structuredClone({ ...DEFAULT_GUILD_SETTINGS, ...stored });
+}
+
+/**
+ * Per-guild settings persisted as a single JSON file. The file is read once on
+ * first use; writes are serialised and replace the file atomically.
+ */
+class GuildSettingsStore {
+  private readonly filePath: string;
+  private settings: Promise<Map<string, Partial<GuildSettings>>> | null;
+  private writeQueue: Promise<void>;
+
+  /**
+   * @param filePath - Where the settings are stored.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.settings = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * Returns the guild's settings, with defaults for anything never set.
+   */
+  async get(guildId: string): Promise<GuildSettings> {
+    return withDefaults((await this.load()).get(guildId));
+  }
+
+  /**
+   * Applies changes to the guild's settings and persists them. Pass a function
+   * to derive the changes from the current settings: it runs inside the write
+   * queue, so concurrent edits of the same list or map are not lost.
+   * @returns The updated settings.
+   */
+  async update(
+    guildId: string,
+    changes: Partial<GuildSettings> | ((current: GuildSettings) => Partial<GuildSettings>)
+  ): Promise<GuildSettings> {
+    await this.modify(guildId, stored => ({
+      ...stored,
+      ...(typeof changes === 'function' ? changes(withDefaults(stored)) : changes),
+    }));
+    return this.get(guildId);
+  }
+
+  /**
+   * Restores settings to their defaults and persists the result.
+   * @param keys - The settings to reset.
+   * @returns The updated settings.
+   */
+  async reset(guildId: string, keys: (keyof GuildSettings)[]): Promise<GuildSettings> {
+    await this.modify(guildId, stored => {
+      const next = { ...stored };
+      for (const key of keys) delete next[key];
+      return next;
+    });
+    return this.get(guildId);
+  }
+
+  /**
+   * Reads the file once. A file that can't be parsed is moved aside rather
+   * than overwritten by the next update, so its contents can be recovered.
+   */
+  private load(): Promise<Map<string, Partial<GuildSettings>>> {
+    this.settings ??= this.read();
+    return this.settings;
+  }
+
+  private async read(): Promise<Map<string, Partial<GuildSettings>>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(error, `Could not read guild settings from ${this.filePath}; using defaults`);
+      }
+      return new Map();
+    }
+
+    try {
+      return new Map(Object.entries(JSON.parse(contents)));
+    } catch (error) {
+      const asidePath = `${this.filePath}.corrupt-${Date.now()}`;
+      logger.error(
+        error,
+        `Guild settings in ${this.filePath} are invalid; moving them to ${asidePath}`
+      );
+      await rename(this.filePath, asidePath).catch(renameError =>
+        logger.error(renameError, `Could not move ${this.filePath} aside`)
+      );
+      return new Map();
+    }
+  }
+
+  /**
+   * Replaces the guild's stored settings with `change(stored)` and writes the
+   * file. Reads and writes are serialised, so each change sees the last one.
+   */
+  private modify(
+    guildId: string,
+    change: (stored: Partial<GuildSettings>) => Partial<GuildSettings>
+  ): Promise<void> {
+    const write = async () => {
+      const settings = await this.load();
+      settings.set(guildId, change(settings.get(guildId) ?? {}));
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(Object.fromEntries(settings), null, 2));
+      await rename(tempPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+export const guildSettings = new GuildSettingsStore(
+  path.join(STORAGE_CONFIG.DATA_DIR, 'guild-settings.json')
+);
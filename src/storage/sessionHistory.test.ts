@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it, mock } from 'node:test';
+
+// The store reads its location from the bot config, which refuses to load without credentials.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'history-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.DISCORD_BOT_TOKEN ??= 'test-token';
+process.env.DISCORD_CLIENT_ID ??= 'test-client';
+process.env.AGENT_ID ??= 'test-agent';
+const { sessionHistory } = await import('./sessionHistory.js');
+
+const DAY_MS = 86_400_000;
+
+async function createSessionFiles(guildId: string, ids: string[]): Promise<void> {
+  const guildDir = path.join(dataDir, 'history', guildId);
+  await mkdir(guildDir, { recursive: true });
+  for (const id of ids) await writeFile(path.join(guildDir, `${id}.json`), '{}');
+}
+
+async function storedIds(guildId: string): Promise<string[]> {
+  const files = await readdir(path.join(dataDir, 'history', guildId));
+  return files.map(file => path.parse(file).name).sort();
+}
+
+describe('sessionHistory', () => {
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('creates IDs of a fixed shape even when the random part comes up short', () => {
+    const random = mock.method(Math, 'random', () => 0);
+    try {
+      assert.match(sessionHistory.createId(), /^[a-z0-9]+-0000$/);
+    } finally {
+      random.mock.restore();
+    }
+  });
+
+  it('prunes by the time in the ID, for both ID formats', async () => {
+    const old = (Date.now() - 40 * DAY_MS).toString(36);
+    const recent = (Date.now() - DAY_MS).toString(36);
+    const random = mock.method(Math, 'random', () => 0);
+    const created = sessionHistory.createId();
+    random.mock.restore();
+
+    await createSessionFiles('guild-1', [
+      `${old}-abcd`,
+      `${old}abcd`,
+      `${recent}-abcd`,
+      `${recent}abcd`,
+      created,
+    ]);
+
+    assert.equal(await sessionHistory.prune('guild-1', 30), 2);
+    assert.deepEqual(
+      await storedIds('guild-1'),
+      [created, `${recent}-abcd`, `${recent}abcd`].sort()
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { STORAGE_CONFIG } from '../config/config.js';
+import { logger } from '../config/logger.js';
+
+/**
+ * One line of a session transcript. Timestamps are ISO 8601 strings.
+ */
+export type HistoryEntry =
+  | {
+      type: 'user';
+      at: string;
+      via: 'voice' | 'chat';
+      /** Members who were speaking when the line was transcribed, most recent first. */
+      speakerIds: string[];
+      speakerNames: string[];
+      text: string;
+    }
+  | { type: 'agent'; at: string; text: string }
+  | {
+      type: 'tool_call';
+      at: string;
+      toolCallId: string;
+      tool: string;
+      parameters: Record<string, unknown>;
+    }
+  | { type: 'tool_result'; at: string; toolCallId: string; result: string; isError: boolean };
+
+/**
+ * Everything kept about one voice session.
+ */
+export interface SessionRecord {
+  id: string;
+  guildId: string;
+  voiceChannelId: string;
+  voiceChannelName: string;
+  ownerId: string;
+  agentProfile?: string;
+  /** ElevenLabs conversation IDs, one per (re)connection. */
+  conversationIds: string[];
+  startedAt: string;
+  endedAt: string;
+  entries: HistoryEntry[];
+  /** Audio recording saved next to the record, if the session was recorded. */
+  recording?: {
+    fileName: string;
+    durationSeconds: number;
+    /** Members who asked not to be recorded; their audio is absent from the file. */
+    excludedUserIds: string[];
+  };
+}
+
+export type SessionSummary = Omit<SessionRecord, 'entries'> & { entryCount: number };
+
+/** Session IDs become file names, so only accept what `createId` produces. */
+const SESSION_ID_PATTERN = /^[a-z0-9]{6,32}(-[a-z0-9]{4})?$/;
+
+/**
+ * When a session started, read from its ID. IDs from before the dash was
+ * added have the four random characters appended directly.
+ */
+function createdAtOf(id: string): number {
+  const dash = id.indexOf('-');
+  return parseInt(dash === -1 ? id.slice(0, -4) : id.slice(0, dash), 36);
+}
+
+/**
+ * Session records stored as one JSON file per session, grouped by guild.
+ */
+class SessionHistoryStore {
+  private readonly rootDir: string;
+
+  /**
+   * @param rootDir - Directory that holds a folder per guild.
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Generates an ID for a new session, sortable by start time: the time in
+   * base 36, a dash and four random characters.
+   */
+  createId(): string {
+    const suffix = Math.random().toString(36).slice(2, 6).padEnd(4, '0');
+    return `${Date.now().toString(36)}-${suffix}`;
+  }
+
+  /**
+   * Writes a finished session to disk.
+   */
+  async save(record: SessionRecord): Promise<void> {
+    const filePath = this.filePath(record.guildId, record.id);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(record, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  /**
+   * Where a session's audio recording is written, creating the guild's folder
+   * if needed.
+   */
+  async prepareRecordingPath(guildId: string, id: string): Promise<string> {
+    const filePath = this.recordingPath(guildId, id);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    return filePath;
+  }
+
+  /**
+   * Loads a session, or returns null if it doesn't exist in the guild.
+   */
+  async load(guildId: string, id: string): Promise<SessionRecord | null> {
+    if (!SESSION_ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.filePath(guildId, id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(error, `Could not read session history ${id}`);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Summaries of the guild's sessions, newest first.
+   * @param limit - Maximum number of sessions to return.
+   */
+  async list(guildId: string, limit: number): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    for (const id of (await this.listIds(guildId)).slice(0, limit)) {
+      const record = await this.load(guildId, id);
+      if (!record) continue;
+      const { entries, ...summary } = record;
+      summaries.push({ ...summary, entryCount: entries.length });
+    }
+    return summaries;
+  }
+
+  /**
+   * Deletes a session's record and recording.
+   */
+  async delete(guildId: string, id: string): Promise<void> {
+    await rm(this.filePath(guildId, id), { force: true });
+    await rm(this.recordingPath(guildId, id), { force: true });
+  }
+
+  /**
+   * Deletes the guild's sessions that started more than `retentionDays` ago,
+   * including recordings whose record was never saved. A retention of 0
+   * deletes everything.
+   * @returns How many sessions were deleted.
+   */
+  async prune(guildId: string, retentionDays: number): Promise<number> {
+    const cutoff = Date.now() - retentionDays * 86_400_000;
+    let deleted = 0;
+    for (const id of await this.listIds(guildId, ['.json', '.wav'])) {
+      if (createdAtOf(id) >= cutoff) continue;
+      await this.delete(guildId, id);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Prunes every guild that has stored history.
+   * @param retentionDays - Looks up a guild's current retention period.
+   * @returns How many sessions were deleted in total.
+   */
+  async pruneAll(retentionDays: (guildId: string) => Promise<number>): Promise<number> {
+    let guildIds: string[];
+    try {
+      guildIds = await readdir(this.rootDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    let deleted = 0;
+    for (const guildId of guildIds) {
+      deleted += await this.prune(guildId, await retentionDays(guildId));
+    }
+    return deleted;
+  }
+
+  /**
+   * IDs of the guild's sessions that have a file with one of the given
+   * extensions, newest first.
+   */
+  private async listIds(guildId: string, extensions = ['.json']): Promise<string[]> {
+    try {
+      const files = await readdir(path.join(this.rootDir, guildId));
+      const ids = files
+        .map(file => path.parse(file))
+        .filter(({ ext, name }) => extensions.includes(ext) && SESSION_ID_PATTERN.test(name))
+        .map(({ name }) => name);
+      return Array.from(new Set(ids)).sort().reverse();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private filePath(guildId: string, id: string): string {
+    return path.join(this.rootDir, guildId, `${id}.json`);
+  }
+
+  private recordingPath(guildId: string, id: string): string {
+    return path.join(this.rootDir, guildId, `${id}.wav`);
+  }
+}
+
+export const sessionHistory = new SessionHistoryStore(
+  path.join(STORAGE_CONFIG.DATA_DIR, 'history')
+);
@@ -0,0 +1,96 @@
+import { PermissionFlagsBits } from 'discord.js';
+import { missingBotPermissions } from '../api/discord/permissions.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
+import { logger } from '../config/logger.js';
+
+/** Discord's limits for native polls. */
+const MAX_QUESTION_LENGTH = 300;
+const MAX_ANSWER_LENGTH = 55;
+const MAX_ANSWERS = 10;
+const MAX_DURATION_HOURS = 768;
+
+export const spec: ToolSpec = {
+  name: 'create_poll',
+  description:
+    'Creates a Discord poll in the text channel linked to this conversation so people can vote.',
+  parameters: {
+    question: {
+      type: 'string',
+      description: 'The poll question, under 300 characters.',
+      required: true,
+    },
+    answers: {
+      type: 'string',
+      description:
+        'Between 2 and 10 answer choices separated by semicolons, e.g. "Pizza; Tacos; Sushi". Keep each under 55 characters.',
+      required: true,
+    },
+    duration_hours: {
+      type: 'integer',
+      description: 'How many hours voting stays open. Defaults to 24.',
+    },
+    allow_multiselect: {
+      type: 'boolean',
+      description: 'Whether people may pick more than one answer. Defaults to false.',
+    },
+  },
+  expectsResponse: true,
+  responseTimeoutSecs: 5,
+};
+
+/**
+ * Creates the poll tool for the session's text channel.
+ */
+export function create({ textChannel }: ToolContext): ToolHandler {
+  return async ({ parameters, signal, respond }) => {
+    const question = parameters.question as string;
+    const answers = (parameters.answers as string)
+      .split(';')
+      .map(answer => answer.trim())
+      .filter(Boolean);
+    const durationHours = (parameters.duration_hours as number | undefined) ?? 24;
+
+    if (question.length > MAX_QUESTION_LENGTH) {
+      respond(`The question is too long. Keep it under ${MAX_QUESTION_LENGTH} characters.`, true);
+      return;
+    }
+    if (answers.length < 2 || answers.length > MAX_ANSWERS) {
+      respond(`A poll needs between 2 and ${MAX_ANSWERS} answers.`, true);
+      return;
+    }
+    if (answers.some(answer => answer.length > MAX_ANSWER_LENGTH)) {
+      respond(`Each answer must be under ${MAX_ANSWER_LENGTH} characters.`, true);
+      return;
+    }
+    if (durationHours < 1 || durationHours > MAX_DURATION_HOURS) {
+      respond(`A poll can run for 1 to ${MAX_DURATION_HOURS} hours.`, true);
+      return;
+    }
+
+    const permissionError = missingBotPermissions(textChannel, [
+      PermissionFlagsBits.ViewChannel,
+      PermissionFlagsBits.SendMessages,
+      PermissionFlagsBits.SendPolls,
+    ]);
+    if (permissionError) {
+      respond(permissionError, true);
+      return;
+    }
+
+    try {
+      if (signal.aborted) return;
+      await textChannel.send({
+        poll: {
+          question: { text: question },
+          answers: answers.map(text => ({ text })),
+          duration: durationHours,
+          allowMultiselect: (parameters.allow_multiselect as boolean | undefined) ?? false,
+        },
+      });
+      respond(`Created the poll "${question}" in #${textChannel.name} for ${durationHours} hours.`);
+    } catch (error) {
+      logger.error(error, 'Failed to create poll for create_poll tool');
+      respond("I couldn't create that poll.", true);
+    }
+  };
+}
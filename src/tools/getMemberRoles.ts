@@ -0,0 +1,49 @@
+import { describeMemberLookupFailure, findMember } from '../api/discord/members.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
+import { logger } from '../config/logger.js';
+
+export const spec: ToolSpec = {
+  name: 'get_member_roles',
+  description: "Looks up a server member's roles.",
+  parameters: {
+    user: {
+      type: 'string',
+      description: 'Display name or username of the member to look up.',
+      required: true,
+    },
+  },
+  expectsResponse: true,
+  responseTimeoutSecs: 5,
+};
+
+/**
+ * Creates the member role lookup for the session's guild.
+ */
+export function create({ guild, voiceChannel }: ToolContext): ToolHandler {
+  return async ({ parameters, respond }) => {
+    try {
+      const { member, candidates } = await findMember(
+        guild,
+        parameters.user as string,
+        voiceChannel.members.values()
+      );
+      if (!member) {
+        respond(describeMemberLookupFailure(parameters.user as string, candidates), true);
+        return;
+      }
+
+      const roles = member.roles.cache
+        .filter(role => role.id !== guild.id)
+        .sort((a, b) => b.position - a.position)
+        .map(role => role.name);
+      respond(
+        roles.length
+          ? `${member.displayName} has these roles: ${roles.join(', ')}.`
+          : `${member.displayName} has no roles.`
+      );
+    } catch (error) {
+      logger.error(error, 'Failed to look up member roles');
+      respond("I couldn't look up that member's roles.", true);
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import { PermissionFlagsBits } from 'discord.js';
+import { missingBotPermissions } from '../api/discord/permissions.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
+
+export const spec: ToolSpec = {
+  name: 'list_voice_members',
+  description:
+    'Lists who is currently in the voice channel, including whether each person is muted or streaming.',
+  parameters: {},
+  expectsResponse: true,
+  responseTimeoutSecs: 5,
+};
+
+/**
+ * Creates the voice member listing for the session's voice channel.
+ */
+export function create({ voiceChannel }: ToolContext): ToolHandler {
+  return async ({ respond }) => {
+    const permissionError = missingBotPermissions(voiceChannel, [PermissionFlagsBits.ViewChannel]);
+    if (permissionError) {
+      respond(permissionError, true);
+      return;
+    }
+
+    const members = voiceChannel.members.filter(member => !member.user.bot);
+    if (!members.size) {
+      respond('Nobody else is in the voice channel.');
+      return;
+    }
+
+    const lines = members.map(member => {
+      const states = [
+        member.voice.mute ? 'muted' : null,
+        member.voice.deaf ? 'deafened' : null,
+        member.voice.streaming ? 'streaming' : null,
+      ].filter(Boolean);
+      return states.length ? `${member.displayName} (${states.join(', ')})` : member.displayName;
+    });
+    respond(`${members.size} in ${voiceChannel.name}: ${lines.join('; ')}.`);
+  };
+}
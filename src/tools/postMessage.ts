@@ -0,0 +1,58 @@
+import { PermissionFlagsBits, type PermissionResolvable } from 'discord.js';
+import { missingBotPermissions } from '../api/discord/permissions.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
+import { logger } from '../config/logger.js';
+import { Embeds } from '../utils/embedHelper.js';
+
+export const spec: ToolSpec = {
+  name: 'post_message',
+  description:
+    'Posts a message to the text channel linked to this conversation, e.g. a link, list or summary that is easier to read than to hear. Give it a title to post it as an embed.',
+  parameters: {
+    message: {
+      type: 'string',
+      description: 'The text to post. Supports Discord markdown.',
+      required: true,
+    },
+    title: {
+      type: 'string',
+      description: 'Optional title. When given, the message is posted as an embed.',
+    },
+  },
+  expectsResponse: true,
+  responseTimeoutSecs: 5,
+};
+
+/**
+ * Creates the message poster for the session's text channel.
+ */
+export function create({ textChannel }: ToolContext): ToolHandler {
+  return async ({ parameters, signal, respond }) => {
+    const message = (parameters.message as string).slice(0, 4000);
+    const title = parameters.title as string | undefined;
+
+    const required: PermissionResolvable[] = [
+      PermissionFlagsBits.ViewChannel,
+      PermissionFlagsBits.SendMessages,
+    ];
+    if (title) required.push(PermissionFlagsBits.EmbedLinks);
+    const permissionError = missingBotPermissions(textChannel, required);
+    if (permissionError) {
+      respond(permissionError, true);
+      return;
+    }
+
+    try {
+      if (signal.aborted) return;
+      await textChannel.send(
+        title
+          ? { embeds: [Embeds.info(title.slice(0, 256), message)] }
+          : { content: message.slice(0, 2000), allowedMentions: { parse: [] } }
+      );
+      respond(`Posted the message in #${textChannel.name}.`);
+    } catch (error) {
+      logger.error(error, 'Failed to post message for post_message tool');
+      respond("I couldn't post that message.", true);
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { PermissionFlagsBits } from 'discord.js';
+import {
+  describeMemberLookupFailure,
+  findMember,
+  type MemberLookup,
+} from '../api/discord/members.js';
+import { missingBotPermissions } from '../api/discord/permissions.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
+import { logger } from '../config/logger.js';
+
+/** Longest delay a reminder may use. Reminders are kept in memory only. */
+const MAX_DELAY_MINUTES = 24 * 60;
+
+export const spec: ToolSpec = {
+  name: 'schedule_reminder',
+  description:
+    'Schedules a reminder that mentions someone in the text channel linked to this conversation after a delay. Reminders are lost if the bot restarts.',
+  parameters: {
+    user: {
+      type: 'string',
+      description: 'Display name or username of the person to remind.',
+      required: true,
+    },
+    message: {
+      type: 'string',
+      description: 'What to remind them about.',
+      required: true,
+    },
+    delay_minutes: {
+      type: 'number',
+      description: 'Minutes from now until the reminder is sent, up to 1440 (24 hours).',
+      required: true,
+    },
+  },
+  expectsResponse: true,
+  responseTimeoutSecs: 8,
+};
+
+/**
+ * Creates the reminder tool. Reminders outlive the session that scheduled them.
+ */
+export function create({ guild, textChannel, voiceChannel }: ToolContext): ToolHandler {
+  return async ({ parameters, signal, respond }) => {
+    const message = (parameters.message as string).slice(0, 1500);
+    const delayMinutes = parameters.delay_minutes as number;
+    if (delayMinutes < 1 || delayMinutes > MAX_DELAY_MINUTES) {
+      respond('Reminders can be set for between 1 minute and 24 hours from now.', true);
+      return;
+    }
+
+    const permissionError = missingBotPermissions(textChannel, [
+      PermissionFlagsBits.ViewChannel,
+      PermissionFlagsBits.SendMessages,
+    ]);
+    if (permissionError) {
+      respond(permissionError, true);
+      return;
+    }
+
+    let lookup: MemberLookup;
+    try {
+      lookup = await findMember(guild, parameters.user as string, voiceChannel.members.values());
+    } catch (error) {
+      logger.error(error, 'Failed to look up member for schedule_reminder tool');
+      respond("I couldn't look up who to remind.", true);
+      return;
+    }
+    if (signal.aborted) return;
+    const { member, candidates } = lookup;
+    if (!member) {
+      respond(describeMemberLookupFailure(parameters.user as string, candidates), true);
+      return;
+    }
+
+    const delayMs = Math.round(delayMinutes * 60_000);
+    setTimeout(() => {
+      textChannel
+        .send({
+          content: `⏰ ${member.toString()} Reminder: ${message}`,
+          allowedMentions: { users: [member.id] },
+        })
+        .catch(error => logger.error(error, 'Failed to send scheduled reminder'));
+    }, delayMs).unref();
+
+    const minutes = Number(delayMinutes.toFixed(1));
+    respond(`I'll remind ${member.displayName} in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+  };
+}
@@ -1,35 +1,53 @@
-import type { TextChannel } from 'discord.js';
 import { tavily } from '@tavily/core';
-import { TAVILY_CONFIG } from '../../../config/config.js';
-import { Embeds } from '../../../utils/embedHelper.js';
-import { logger } from '../../../config/logger.js';
-import type { ToolHandler } from '../types/tools.js';
+import { TAVILY_CONFIG } from '../config/toolConfig.js';
+import { Embeds } from '../utils/embedHelper.js';
+import { logger } from '../config/logger.js';
+import type { ToolContext, ToolHandler, ToolSpec } from '../api/elevenlabs/types/tools.js';
 
-export function createTavilyTool(textChannel: TextChannel): ToolHandler {
+export const spec: ToolSpec = {
+  name: 'web_search',
+  description:
+    'Searches the internet for real-time information, fact-checks claims, or answers specific questions outside of your internal knowledge.',
+  parameters: {
+    query: {
+      type: 'string',
+      description:
+        "Analyze the user's spoken request, isolate the key question or search terms, and turn it into a concise query suitable for a search engine.",
+      required: true,
+    },
+  },
+  expectsResponse: true,
+  responseTimeoutSecs: 8,
+};
+
+/**
+ * Creates the Tavily-powered web search. Results are also posted to the
+ * session's text channel as an embed.
+ * @returns The handler, or null when no Tavily API key is configured.
+ */
+export function create({ textChannel, settings }: ToolContext): ToolHandler | null {
   const apiKey = TAVILY_CONFIG.TAVILY_KEY;
   if (!apiKey) {
-    throw new Error('Tavily API key is required to initialize the Tavily tool.');
+    logger.info('Tavily API key not provided. Skipping registration of web_search tool.');
+    return null;
   }
 
   const client = tavily({
     apiKey,
   });
 
-  return async ({ parameters, respond }) => {
-    const query = typeof parameters?.query === 'string' ? parameters.query.trim() : '';
-    if (!query) {
-      respond('Error: Missing query parameter.', true);
-      return;
-    }
+  return async ({ parameters, signal, respond }) => {
+    const query = parameters.query as string;
 
     try {
       const response = await client.search(query, {
         autoParameters: TAVILY_CONFIG.AUTO_PARAMETERS,
         includeImages: TAVILY_CONFIG.INCLUDE_IMAGES,
-        maxResults: TAVILY_CONFIG.MAX_RESULTS,
+        maxResults: settings.searchMaxResults,
         includeAnswer: TAVILY_CONFIG.INCLUDE_ANSWER,
-        searchDepth: TAVILY_CONFIG.SEARCH_DEPTH,
+        searchDepth: settings.searchDepth,
       });
+      if (signal.aborted) return;
 
       const primaryResult = response.results?.find(
         candidate => typeof candidate?.url === 'string' && candidate.url.trim().length > 0
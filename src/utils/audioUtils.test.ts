@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeMuLaw, encodeMuLaw, parseAudioFormat, PcmResampler } from './audioUtils.js';
+
+function pcmOf(samples: number[]): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => pcm.writeInt16LE(sample, i * 2));
+  return pcm;
+}
+
+function samplesOf(pcm: Buffer): number[] {
+  return Array.from({ length: pcm.byteLength / 2 }, (_, i) => pcm.readInt16LE(i * 2));
+}
+
+describe('parseAudioFormat', () => {
+  it('reads the encoding and sample rate', () => {
+    assert.deepEqual(parseAudioFormat('pcm_24000'), { encoding: 'pcm', sampleRate: 24000 });
+    assert.deepEqual(parseAudioFormat('ulaw_8000'), { encoding: 'ulaw', sampleRate: 8000 });
+  });
+
+  it('rejects unknown formats', () => {
+    assert.equal(parseAudioFormat('mp3_44100'), null);
+    assert.equal(parseAudioFormat('pcm_0'), null);
+    assert.equal(parseAudioFormat(undefined), null);
+  });
+});
+
+describe('μ-law', () => {
+  it('round-trips samples within the quantisation step', () => {
+    const samples = [0, 1, -1, 100, -100, 1000, -1000, 8000, -8000, 20000, -20000, 32767, -32768];
+    const decoded = samplesOf(decodeMuLaw(encodeMuLaw(pcmOf(samples))));
+
+    decoded.forEach((value, i) => {
+      const tolerance = Math.max(8, Math.abs(samples[i]) / 16);
+      assert.ok(
+        Math.abs(value - samples[i]) <= tolerance,
+        `${samples[i]} decoded as ${value}, more than ${tolerance} off`
+      );
+    });
+  });
+
+  it('encodes silence as 0xFF and keeps the sign in the top bit', () => {
+    const [silence, positive, negative] = encodeMuLaw(pcmOf([0, 5000, -5000]));
+    assert.equal(silence, 0xff);
+    assert.equal(positive ^ negative, 0x80);
+  });
+
+  it('produces one byte per sample and two bytes per decoded sample', () => {
+    assert.equal(encodeMuLaw(Buffer.alloc(320)).byteLength, 160);
+    assert.equal(decodeMuLaw(Buffer.alloc(160)).byteLength, 320);
+  });
+});
+
+describe('PcmResampler', () => {
+  it('passes audio through when the rates match', () => {
+    const pcm = pcmOf([1, 2, 3]);
+    assert.equal(new PcmResampler(48000, 48000).process(pcm), pcm);
+  });
+
+  it('keeps a constant signal constant', () => {
+    const output = samplesOf(new PcmResampler(16000, 48000).process(pcmOf(Array(160).fill(1000))));
+    assert.ok(output.every(sample => sample === 1000));
+  });
+
+  it('scales the length by the rate ratio across many chunks', () => {
+    const upsampler = new PcmResampler(16000, 48000);
+    const downsampler = new PcmResampler(48000, 16000);
+    let upsampled = 0;
+    let downsampled = 0;
+    for (let i = 0; i < 10; i++) {
+      upsampled += upsampler.process(Buffer.alloc(320)).byteLength / 2;
+      downsampled += downsampler.process(Buffer.alloc(960)).byteLength / 2;
+    }
+
+    assert.ok(Math.abs(upsampled - 4800) <= 3, `upsampled to ${upsampled} samples`);
+    assert.ok(Math.abs(downsampled - 1600) <= 1, `downsampled to ${downsampled} samples`);
+  });
+
+  it('gives the same output whether the input arrives whole or in pieces', () => {
+    const ramp = Array.from({ length: 300 }, (_, i) => i * 10);
+    const whole = new PcmResampler(24000, 48000).process(pcmOf(ramp));
+
+    const chunked = new PcmResampler(24000, 48000);
+    const pieces = [ramp.slice(0, 77), ramp.slice(77, 201), ramp.slice(201)].map(part =>
+      chunked.process(pcmOf(part))
+    );
+
+    assert.deepEqual(samplesOf(Buffer.concat(pieces)), samplesOf(whole));
+  });
+
+  it('starts over after a reset', () => {
+    const resampler = new PcmResampler(16000, 48000);
+    const first = resampler.process(pcmOf([100, 200, 300]));
+    resampler.process(pcmOf([5000, 6000]));
+    resampler.reset();
+
+    assert.deepEqual(resampler.process(pcmOf([100, 200, 300])), first);
+  });
+});
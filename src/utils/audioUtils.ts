@@ -1,17 +1,145 @@
+export type AudioEncoding = 'pcm' | 'ulaw';
+
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+}
+
+/** ElevenLabs' default for both directions when nothing else is negotiated. */
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = { encoding: 'pcm', sampleRate: 16000 };
+
+/** Discord plays and receives 48 kHz audio. */
+export const DISCORD_SAMPLE_RATE = 48000;
+
+/**
+ * Parse an ElevenLabs audio format string such as `pcm_16000` or `ulaw_8000`.
+ * @returns The parsed format, or null when the string is not recognised.
+ */
+export function parseAudioFormat(format: string | undefined): AudioFormat | null {
+  const match = /^(pcm|ulaw)_(\d+)$/.exec(format ?? '');
+  if (!match) return null;
+
+  const sampleRate = Number(match[2]);
+  return sampleRate > 0 ? { encoding: match[1] as AudioEncoding, sampleRate } : null;
+}
+
 /**
- * Decode base-64 mono 48 kHz 16-bit PCM and return a stereo Buffer
- * compatible with `StreamType.Raw` (48 kHz 16-bit stereo).
+ * Duplicate each sample of a mono 16-bit PCM buffer into a stereo Buffer
+ * compatible with `StreamType.Raw` (16-bit interleaved stereo).
  */
-export function base64MonoPcmToStereo(base64: string): Buffer {
-  const mono = Buffer.from(base64, 'base64');
-  if (mono.byteLength === 0) return Buffer.alloc(0);
-
-  const inView = new Int16Array(mono.buffer, mono.byteOffset, mono.byteLength / 2);
-  const outView = new Int16Array(inView.length * 2);
-  for (let i = 0, j = 0; i < inView.length; i++, j += 2) {
-    const s = inView[i];
-    outView[j] = s;
-    outView[j + 1] = s;
-  }
-  return Buffer.from(outView.buffer, outView.byteOffset, outView.byteLength);
+export function monoPcmToStereo(mono: Buffer): Buffer {
+  const sampleCount = Math.floor(mono.byteLength / 2);
+  const stereo = Buffer.alloc(sampleCount * 4);
+  for (let i = 0; i < sampleCount; i++) {
+    const s = mono.readInt16LE(i * 2);
+    stereo.writeInt16LE(s, i * 4);
+    stereo.writeInt16LE(s, i * 4 + 2);
+  }
+  return stereo;
+}
+
+/**
+ * Decode G.711 μ-law bytes into 16-bit PCM.
+ */
+export function decodeMuLaw(encoded: Buffer): Buffer {
+  const pcm = Buffer.alloc(encoded.byteLength * 2);
+  for (let i = 0; i < encoded.byteLength; i++) {
+    const u = ~encoded[i] & 0xff;
+    const exponent = (u >> 4) & 0x07;
+    const magnitude = ((((u & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+    pcm.writeInt16LE(u & 0x80 ? -magnitude : magnitude, i * 2);
+  }
+  return pcm;
+}
+
+/**
+ * Encode 16-bit PCM as G.711 μ-law bytes.
+ */
+export function encodeMuLaw(pcm: Buffer): Buffer {
+  const sampleCount = Math.floor(pcm.byteLength / 2);
+  const encoded = Buffer.alloc(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    let sample = pcm.readInt16LE(i * 2);
+    const sign = sample < 0 ? 0x80 : 0;
+    sample = Math.min(Math.abs(sample), 32635) + 0x84;
+
+    let exponent = 7;
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+
+    const mantissa = (sample >> (exponent + 3)) & 0x0f;
+    encoded[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+  return encoded;
+}
+
+/**
+ * Streaming linear-interpolation resampler for mono 16-bit PCM. State carries
+ * across calls so consecutive chunks join without clicks.
+ */
+export class PcmResampler {
+  private readonly step: number;
+  private position: number;
+  private lastSample: number;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.step = inputRate / outputRate;
+    this.position = 1;
+    this.lastSample = 0;
+  }
+
+  process(pcm: Buffer): Buffer {
+    if (this.step === 1) return pcm;
+
+    const inputLength = Math.floor(pcm.byteLength / 2);
+    if (inputLength === 0) return Buffer.alloc(0);
+
+    // Index 0 is the last sample of the previous chunk; index k is sample k - 1 of this one.
+    const sampleAt = (index: number) =>
+      index === 0 ? this.lastSample : pcm.readInt16LE((index - 1) * 2);
+
+    const output: number[] = [];
+    let position = this.position;
+    while (position < inputLength) {
+      const index = Math.floor(position);
+      const frac = position - index;
+      const sample = sampleAt(index) * (1 - frac) + sampleAt(index + 1) * frac;
+      output.push(Math.round(sample));
+      position += this.step;
+    }
+
+    this.position = position - inputLength;
+    this.lastSample = sampleAt(inputLength);
+
+    const out = Buffer.alloc(output.length * 2);
+    output.forEach((sample, i) => out.writeInt16LE(sample, i * 2));
+    return out;
+  }
+
+  reset(): void {
+    this.position = 1;
+    this.lastSample = 0;
+  }
+}
+
+/**
+ * Sum equally sized 16-bit PCM frames into a single frame, clamping each
+ * sample to the Int16 range so overlapping speakers clip instead of wrapping.
+ */
+export function mixPcmFrames(frames: Buffer[], frameBytes: number): Buffer {
+  const out = Buffer.alloc(frameBytes);
+  if (frames.length === 0) return out;
+  if (frames.length === 1) {
+    frames[0].copy(out, 0, 0, frameBytes);
+    return out;
+  }
+
+  const sampleCount = frameBytes / 2;
+  for (let i = 0; i < sampleCount; i++) {
+    let sum = 0;
+    for (const frame of frames) {
+      if (i * 2 + 1 < frame.byteLength) sum += frame.readInt16LE(i * 2);
+    }
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, sum)), i * 2);
+  }
+  return out;
 }
@@ -0,0 +1,76 @@
+import type { HistoryEntry, SessionRecord } from '../storage/sessionHistory.js';
+
+export type HistoryExportFormat = 'markdown' | 'json' | 'txt';
+
+export const HISTORY_EXPORT_FORMATS: { name: string; value: HistoryExportFormat }[] = [
+  { name: 'Markdown', value: 'markdown' },
+  { name: 'JSON', value: 'json' },
+  { name: 'Plain text', value: 'txt' },
+];
+
+const FILE_EXTENSIONS: Record<HistoryExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  txt: 'txt',
+};
+
+/**
+ * `HH:MM:SS` in UTC, matching the ISO timestamps stored in the record.
+ */
+function formatTime(iso: string): string {
+  return iso.slice(11, 19);
+}
+
+/**
+ * Renders one transcript entry as a single line.
+ * @param markdown - Whether to use Markdown emphasis.
+ */
+function formatEntry(entry: HistoryEntry, markdown: boolean): string {
+  const time = markdown ? `\`${formatTime(entry.at)}\`` : `[${formatTime(entry.at)}]`;
+  const label = (name: string) => (markdown ? `**${name}**` : name);
+
+  switch (entry.type) {
+    case 'user': {
+      const speaker = entry.speakerNames.length ? entry.speakerNames.join(', ') : 'Unknown speaker';
+      const via = entry.via === 'chat' ? ' (chat)' : '';
+      return `${time} ${label(`${speaker}${via}`)}: ${entry.text}`;
+    }
+    case 'agent':
+      return `${time} ${label('Agent')}: ${entry.text}`;
+    case 'tool_call':
+      return `${time} → ${entry.tool}(${JSON.stringify(entry.parameters)}) [${entry.toolCallId}]`;
+    case 'tool_result':
+      return `${time} ← ${entry.isError ? 'error' : 'result'} [${entry.toolCallId}]: ${entry.result}`;
+  }
+}
+
+/**
+ * Renders a session record for download.
+ * @returns The file contents and a suggested file name.
+ */
+export function exportSessionRecord(
+  record: SessionRecord,
+  format: HistoryExportFormat
+): { content: string; fileName: string } {
+  const fileName = `session-${record.id}.${FILE_EXTENSIONS[format]}`;
+  if (format === 'json') {
+    return { content: JSON.stringify(record, null, 2), fileName };
+  }
+
+  const markdown = format === 'markdown';
+  const header = [
+    markdown
+      ? `# Voice session in #${record.voiceChannelName}`
+      : `Voice session in #${record.voiceChannelName}`,
+    '',
+    `Started: ${record.startedAt}`,
+    `Ended: ${record.endedAt}`,
+    `Started by: ${record.ownerId}`,
+    ...(record.agentProfile ? [`Agent profile: ${record.agentProfile}`] : []),
+    `ElevenLabs conversation IDs: ${record.conversationIds.join(', ') || 'none'}`,
+    '',
+  ];
+  const lines = record.entries.map(entry => formatEntry(entry, markdown));
+  // Markdown needs blank lines between entries to keep them as separate paragraphs.
+  return { content: [...header, ...lines].join(markdown ? '\n\n' : '\n'), fileName };
+}
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LatencyTracker } from './latencyTracker.js';
+
+describe('LatencyTracker', () => {
+  it('reports nothing before the first sample', () => {
+    assert.deepEqual(new LatencyTracker().snapshot(), {
+      lastMs: null,
+      averageMs: null,
+      samples: 0,
+    });
+  });
+
+  it('reports the last sample and the rounded average', () => {
+    const tracker = new LatencyTracker();
+    [100, 151, 200].forEach(sample => tracker.record(sample));
+
+    assert.deepEqual(tracker.snapshot(), { lastMs: 200, averageMs: 150, samples: 3 });
+  });
+
+  it('only averages the most recent samples', () => {
+    const tracker = new LatencyTracker(3);
+    [1000, 10, 20, 30].forEach(sample => tracker.record(sample));
+
+    assert.deepEqual(tracker.snapshot(), { lastMs: 30, averageMs: 20, samples: 3 });
+  });
+
+  it('ignores negative and non-finite samples', () => {
+    const tracker = new LatencyTracker();
+    [50, -5, NaN, Infinity].forEach(sample => tracker.record(sample));
+
+    assert.deepEqual(tracker.snapshot(), { lastMs: 50, averageMs: 50, samples: 1 });
+  });
+
+  it('forgets every sample on reset', () => {
+    const tracker = new LatencyTracker();
+    tracker.record(80);
+    tracker.reset();
+
+    assert.equal(tracker.snapshot().samples, 0);
+  });
+});
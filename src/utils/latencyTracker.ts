@@ -0,0 +1,50 @@
+export interface LatencySnapshot {
+  /** Most recent sample, or null before the first one arrives. */
+  lastMs: number | null;
+  /** Mean of the samples in the rolling window, or null when empty. */
+  averageMs: number | null;
+  /** Number of samples currently in the window. */
+  samples: number;
+}
+
+/**
+ * Keeps a rolling window of round-trip latency samples.
+ */
+export class LatencyTracker {
+  private readonly windowSize: number;
+  private readonly samples: number[];
+
+  /**
+   * @param windowSize - Number of recent samples to average over (defaults to 20).
+   */
+  constructor(windowSize = 20) {
+    this.windowSize = windowSize;
+    this.samples = [];
+  }
+
+  record(latencyMs: number): void {
+    if (!Number.isFinite(latencyMs) || latencyMs < 0) return;
+
+    this.samples.push(latencyMs);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  reset(): void {
+    this.samples.length = 0;
+  }
+
+  snapshot(): LatencySnapshot {
+    if (!this.samples.length) {
+      return { lastMs: null, averageMs: null, samples: 0 };
+    }
+
+    const total = this.samples.reduce((sum, sample) => sum + sample, 0);
+    return {
+      lastMs: this.samples[this.samples.length - 1],
+      averageMs: Math.round(total / this.samples.length),
+      samples: this.samples.length,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { loadToolModules } from '../api/elevenlabs/tools/toolLoader.js';
+import { toElevenLabsToolJson } from '../api/elevenlabs/tools/toolSchema.js';
+
+/**
+ * Prints the ElevenLabs tool JSON for every client tool, ready to paste into
+ * the agent's tool settings. Pass tool names to print only those.
+ */
+async function printTools(names: string[]): Promise<void> {
+  const specs = (await loadToolModules()).map(tool => tool.spec);
+  const unknown = names.filter(name => !specs.some(spec => spec.name === name));
+  if (unknown.length) {
+    console.error(`Unknown tool(s): ${unknown.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const selected = names.length ? specs.filter(spec => names.includes(spec.name)) : specs;
+  const payloads = selected.map(toElevenLabsToolJson);
+  console.log(JSON.stringify(payloads.length === 1 ? payloads[0] : payloads, null, 2));
+}
+
+await printTools(process.argv.slice(2));
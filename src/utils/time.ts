@@ -6,3 +6,17 @@ export function delay(durationMs: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, durationMs));
 }
 
+/**
+ * Formats a duration as a compact human-readable string, e.g. `1h 4m 9s`.
+ * @param durationMs - Duration in milliseconds.
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(durationMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
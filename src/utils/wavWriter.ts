@@ -0,0 +1,105 @@
+import { createWriteStream, type WriteStream } from 'fs';
+import { open } from 'fs/promises';
+import { once } from 'events';
+import { logger } from '../config/logger.js';
+
+const HEADER_BYTES = 44;
+
+/**
+ * Builds a 16-bit PCM WAV header for the given data length.
+ */
+function createWavHeader(dataBytes: number, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(HEADER_BYTES);
+  const blockAlign = channels * 2;
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Streams 16-bit PCM to a WAV file. The header is written with a zero length
+ * up front and patched with the real sizes on close. After a write error,
+ * further audio is dropped and `close()` rejects.
+ */
+export class WavWriter {
+  readonly filePath: string;
+  private readonly sampleRate: number;
+  private readonly channels: number;
+  private readonly stream: WriteStream;
+  private dataBytes: number;
+  private closed: boolean;
+  private error: Error | null;
+
+  /**
+   * @param filePath - Destination file; overwritten if it exists.
+   * @param sampleRate - Samples per second per channel.
+   * @param channels - Interleaved channel count.
+   */
+  constructor(filePath: string, sampleRate: number, channels: number) {
+    this.filePath = filePath;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.stream = createWriteStream(filePath);
+    this.dataBytes = 0;
+    this.closed = false;
+    this.error = null;
+    this.stream.on('error', error => {
+      if (!this.error) logger.error(error, `Failed writing ${filePath}; dropping further audio`);
+      this.error = error;
+    });
+    this.stream.write(createWavHeader(0, sampleRate, channels));
+  }
+
+  /**
+   * Appends interleaved 16-bit little-endian samples.
+   */
+  write(pcm: Buffer): void {
+    if (this.closed || this.error || !pcm.byteLength) return;
+    this.dataBytes += pcm.byteLength;
+    this.stream.write(pcm);
+  }
+
+  /**
+   * Finishes the file and fixes up the header.
+   * @returns Seconds of audio written.
+   * @throws The write error, if writing failed at any point.
+   */
+  async close(): Promise<number> {
+    if (this.closed) return 0;
+    this.closed = true;
+
+    if (!this.error) {
+      // `once` rejects if the stream errors before it finishes.
+      this.stream.end();
+      await once(this.stream, 'finish').catch(() => undefined);
+    }
+    if (this.error) {
+      this.stream.destroy();
+      throw this.error;
+    }
+
+    const file = await open(this.filePath, 'r+');
+    try {
+      await file.write(
+        createWavHeader(this.dataBytes, this.sampleRate, this.channels),
+        0,
+        HEADER_BYTES,
+        0
+      );
+    } finally {
+      await file.close();
+    }
+    return this.dataBytes / (this.sampleRate * this.channels * 2);
+  }
+}